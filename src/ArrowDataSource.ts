@@ -1,6 +1,23 @@
-import type { Table } from "apache-arrow";
+import { DataType, type Table } from "apache-arrow";
 import type { ITableDataSource } from "./ITableDataSource";
-import type { CellTypes, JSONObject } from "./types";
+import type { CellTypes, ColumnSchema, ColumnType, JSONObject } from "./types";
+
+/** Maps an Arrow type to the logical type of its column. */
+function toColumnType(type: DataType): ColumnType {
+	if (DataType.isDictionary(type)) return toColumnType(type.valueType);
+	if (DataType.isInt(type) || DataType.isFloat(type)) return "number";
+	if (DataType.isBool(type)) return "boolean";
+	if (DataType.isTimestamp(type)) return "timestamp";
+	if (
+		DataType.isStruct(type) ||
+		DataType.isList(type) ||
+		DataType.isFixedSizeList(type) ||
+		DataType.isMap(type)
+	) {
+		return "object";
+	}
+	return "string";
+}
 
 /**
  * A data source implementation for the Apache Arrow Table class.
@@ -45,7 +62,7 @@ export class ArrowDataSource implements ITableDataSource {
 			}
 
 			// Handle timestamp fields by converting to ISO string
-			if (field.type.toString().includes("Timestamp")) {
+			if (DataType.isTimestamp(field.type)) {
 				// Arrow timestamps are stored as numbers (milliseconds since epoch)
 				if (typeof value === "number") {
 					return new Date(value).toISOString();
@@ -64,4 +81,17 @@ export class ArrowDataSource implements ITableDataSource {
 		// .toJSON() conveniently returns the exact JSONObject format we need
 		return row.toJSON();
 	}
+
+	/** Describes the columns from the Arrow schema, field metadata included. */
+	getColumnSchema(): ColumnSchema[] {
+		return this.table.schema.fields.map((field) => ({
+			name: field.name,
+			type: toColumnType(field.type),
+			nullable: field.nullable,
+			nativeType: String(field.type),
+			...(field.metadata.size > 0 && {
+				metadata: Object.fromEntries(field.metadata),
+			}),
+		}));
+	}
 }
@@ -0,0 +1,101 @@
+import type { ITableDataSource } from "./ITableDataSource";
+import type {
+	CellTypes,
+	ColumnSchema,
+	ComputedColumn,
+	JSONObject,
+} from "./types";
+
+/**
+ * A view of another data source with extra columns whose values are computed
+ * from each row. Computed columns look like any other column to consumers,
+ * so they can be sorted, filtered, styled and summarized.
+ */
+export class ComputedDataSource implements ITableDataSource {
+	private readonly source: ITableDataSource;
+	private readonly computed: [string, ComputedColumn][];
+	private readonly columnNames: string[];
+	// For each column of this view, its index in the source row, or the
+	// index into `computed` encoded as -(index + 1).
+	private readonly columnSlots: number[];
+
+	constructor(
+		source: ITableDataSource,
+		computed: Record<string, ComputedColumn>,
+	) {
+		this.source = source;
+		this.computed = Object.entries(computed);
+
+		const sourceColumnNames = source.getColumnNames();
+		const columnNames = [...sourceColumnNames];
+		const columnSlots = sourceColumnNames.map((_, i) => i);
+		this.computed.forEach(([name, column], k) => {
+			if (columnNames.includes(name)) {
+				throw new Error(`Computed column "${name}" already exists`);
+			}
+			let position = columnNames.length;
+			if (column.after !== undefined) {
+				const afterIndex = columnNames.indexOf(column.after);
+				if (afterIndex < 0) {
+					throw new Error(
+						`Unknown column "${column.after}" in computed column "${name}"`,
+					);
+				}
+				position = afterIndex + 1;
+			}
+			columnNames.splice(position, 0, name);
+			columnSlots.splice(position, 0, -(k + 1));
+		});
+		this.columnNames = columnNames;
+		this.columnSlots = columnSlots;
+	}
+
+	getColumnNames(): string[] {
+		return this.columnNames;
+	}
+
+	getRowCount(): number {
+		return this.source.getRowCount();
+	}
+
+	getArrayRow(rowIndex: number): CellTypes[] {
+		const sourceRow = this.source.getArrayRow(rowIndex);
+		const computedValues = this.computeValues(sourceRow, rowIndex);
+		return this.columnSlots.map((slot) =>
+			slot >= 0 ? sourceRow[slot] : computedValues[-slot - 1],
+		);
+	}
+
+	getObjectRow(rowIndex: number): JSONObject {
+		const computedValues = this.computeValues(
+			this.source.getArrayRow(rowIndex),
+			rowIndex,
+		);
+		const row = { ...this.source.getObjectRow(rowIndex) };
+		this.computed.forEach(([name], k) => {
+			row[name] = computedValues[k];
+		});
+		return row;
+	}
+
+	/** Describes the source columns; computed columns are left out. */
+	getColumnSchema(): ColumnSchema[] {
+		return this.source.getColumnSchema?.() ?? [];
+	}
+
+	/**
+	 * Computes the extra values of a row, in declaration order. Each function
+	 * sees the source columns and the computed columns declared before it.
+	 */
+	private computeValues(sourceRow: CellTypes[], rowIndex: number): CellTypes[] {
+		const row: JSONObject = {};
+		this.source.getColumnNames().forEach((name, i) => {
+			row[name] = sourceRow[i];
+		});
+		return this.computed.map(([name, column]) => {
+			const value = column.value(row, rowIndex) ?? null;
+			row[name] = value;
+			return value;
+		});
+	}
+}
@@ -0,0 +1,132 @@
+import type { ITableDataSource } from "./ITableDataSource";
+import { compareValues } from "./sorting";
+import type {
+	CellTypes,
+	ColumnSchema,
+	FilterCondition,
+	JSONObject,
+	RowFilter,
+} from "./types";
+
+/**
+ * A read-only view of another data source that only exposes the rows
+ * matching a filter. Only the indices of the matching rows are stored; the
+ * data itself stays in the wrapped source.
+ */
+export class FilteredDataSource implements ITableDataSource {
+	private readonly source: ITableDataSource;
+	private readonly rowIndices: number[];
+
+	constructor(source: ITableDataSource, filter: RowFilter) {
+		this.source = source;
+		const matches = this.createMatcher(filter);
+		this.rowIndices = [];
+		for (let i = 0; i < source.getRowCount(); i++) {
+			if (matches(i)) {
+				this.rowIndices.push(i);
+			}
+		}
+	}
+
+	getColumnNames(): string[] {
+		return this.source.getColumnNames();
+	}
+
+	getRowCount(): number {
+		return this.rowIndices.length;
+	}
+
+	getArrayRow(rowIndex: number): CellTypes[] {
+		return this.source.getArrayRow(this.getSourceRowIndex(rowIndex));
+	}
+
+	getObjectRow(rowIndex: number): JSONObject {
+		return this.source.getObjectRow(this.getSourceRowIndex(rowIndex));
+	}
+
+	getColumnSchema(): ColumnSchema[] {
+		return this.source.getColumnSchema?.() ?? [];
+	}
+
+	/** Maps a row index of this view to the row's index in the wrapped source. */
+	getSourceRowIndex(rowIndex: number): number {
+		if (rowIndex < 0 || rowIndex >= this.rowIndices.length) {
+			throw new Error(`Row index out of bounds: ${rowIndex}`);
+		}
+		return this.rowIndices[rowIndex];
+	}
+
+	/** The number of rows in the wrapped source, before filtering. */
+	getTotalRowCount(): number {
+		return this.source.getRowCount();
+	}
+
+	/** Turns a filter into a test on the wrapped source's row indices. */
+	private createMatcher(filter: RowFilter): (rowIndex: number) => boolean {
+		if (typeof filter === "function") {
+			return (rowIndex) => filter(this.source.getObjectRow(rowIndex), rowIndex);
+		}
+
+		const columnIndex = this.source.getColumnNames().indexOf(filter.column);
+		if (columnIndex < 0) {
+			throw new Error(`Unknown filter column "${filter.column}"`);
+		}
+		// Compile a pattern string once rather than for every row.
+		const condition =
+			filter.op === "regex" && !(filter.value instanceof RegExp)
+				? { ...filter, value: new RegExp(String(filter.value)) }
+				: filter;
+		return (rowIndex) =>
+			matchesCondition(
+				this.source.getArrayRow(rowIndex)[columnIndex] ?? null,
+				condition,
+			);
+	}
+}
+
+/** Tests a cell value against a declarative filter condition. */
+function matchesCondition(
+	cell: CellTypes,
+	condition: FilterCondition,
+): boolean {
+	const { op, value } = condition;
+	if (op === "regex") {
+		const pattern = value instanceof RegExp ? value : new RegExp(String(value));
+		// A global or sticky pattern would carry its position between rows.
+		pattern.lastIndex = 0;
+		return cell !== null && pattern.test(cellText(cell));
+	}
+	if (value instanceof RegExp) {
+		throw new Error(`Filter operator "${op}" does not take a RegExp`);
+	}
+
+	switch (op) {
+		case "eq":
+			return (
+				cell === value ||
+				(cell !== null && value !== null && compareValues(cell, value) === 0)
+			);
+		case "ne":
+			return !matchesCondition(cell, { ...condition, op: "eq" });
+		case "contains":
+			return cell !== null && cellText(cell).includes(String(value));
+		case "gt":
+		case "gte":
+		case "lt":
+		case "lte": {
+			if (cell === null || value === null) return false;
+			const result = compareValues(cell, value);
+			if (op === "gt") return result > 0;
+			if (op === "gte") return result >= 0;
+			if (op === "lt") return result < 0;
+			return result <= 0;
+		}
+		default:
+			throw new Error(`Unknown filter operator "${op}"`);
+	}
+}
+
+/** The text a filter matches against; objects match on their JSON form. */
+function cellText(cell: CellTypes): string {
+	return typeof cell === "object" ? JSON.stringify(cell) : String(cell);
+}
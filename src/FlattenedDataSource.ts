@@ -0,0 +1,205 @@
+import type { ITableDataSource } from "./ITableDataSource";
+import type {
+	ArrayStrategy,
+	CellTypes,
+	ColumnSchema,
+	FlattenConfig,
+	JSONObject,
+} from "./types";
+
+const DEFAULT_FLATTEN_DEPTH = 1;
+const DEFAULT_ARRAY_STRATEGY: ArrayStrategy = "join";
+const DEFAULT_ARRAY_SEPARATOR = ", ";
+const PATH_SEPARATOR = ".";
+
+/** The nested keys seen under an expanded object, in first-seen order. */
+type KeyTree = Map<string, KeyTree | null>;
+
+/**
+ * Converts Arrow values to plain ones: struct rows become objects and list
+ * vectors become arrays. Other values pass through unchanged.
+ */
+export function toPlain(value: unknown): unknown {
+	if (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		typeof (value as { toJSON?: unknown }).toJSON === "function"
+	) {
+		return (value as { toJSON(): unknown }).toJSON();
+	}
+	return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** JSON.stringify, with Arrow's 64-bit integers written as strings. */
+function toJSONText(value: unknown): string {
+	return JSON.stringify(value, (_, v) =>
+		typeof v === "bigint" ? v.toString() : v,
+	);
+}
+
+/** Renders an array item as text for the join and first-N strategies. */
+function itemText(item: unknown): string {
+	const plain = toPlain(item);
+	if (typeof plain === "object" && plain !== null) {
+		return toJSONText(plain);
+	}
+	return String(plain ?? "");
+}
+
+/**
+ * A view of another data source that expands nested objects into dotted
+ * columns, such as `address.city` and `address.zip`, and reduces arrays to a
+ * single value. Works with plain objects as well as Arrow struct and list
+ * columns. Nested keys are discovered by scanning every row once.
+ */
+export class FlattenedDataSource implements ITableDataSource {
+	private readonly source: ITableDataSource;
+	private readonly config: FlattenConfig;
+	private readonly columnPaths: string[][];
+	private readonly columnNames: string[];
+	private readonly sourceIndices: number[]; // Source column of each column
+
+	constructor(source: ITableDataSource, config: FlattenConfig = {}) {
+		this.source = source;
+		this.config = config;
+
+		const sourceColumnNames = source.getColumnNames();
+		const trees: (KeyTree | null)[] = sourceColumnNames.map(() => null);
+		for (let rowIndex = 0; rowIndex < source.getRowCount(); rowIndex++) {
+			const row = source.getArrayRow(rowIndex);
+			sourceColumnNames.forEach((name, i) => {
+				trees[i] = this.collectKeys(row[i], [name], trees[i]);
+			});
+		}
+
+		this.columnPaths = sourceColumnNames.flatMap((name, i) =>
+			this.leafPaths([name], trees[i]),
+		);
+		this.sourceIndices = this.columnPaths.map((path) =>
+			sourceColumnNames.indexOf(path[0]),
+		);
+		this.columnNames = this.columnPaths.map((path) =>
+			path.join(PATH_SEPARATOR),
+		);
+	}
+
+	getColumnNames(): string[] {
+		return this.columnNames;
+	}
+
+	getRowCount(): number {
+		return this.source.getRowCount();
+	}
+
+	getArrayRow(rowIndex: number): CellTypes[] {
+		const row = this.source.getArrayRow(rowIndex);
+		return this.columnPaths.map((path, i) => {
+			let value = toPlain(row[this.sourceIndices[i]]);
+			for (const key of path.slice(1)) {
+				value = isPlainObject(value) ? toPlain(value[key]) : undefined;
+			}
+			return this.toCell(value);
+		});
+	}
+
+	getObjectRow(rowIndex: number): JSONObject {
+		const values = this.getArrayRow(rowIndex);
+		const row = { ...this.source.getObjectRow(rowIndex) };
+		this.columnNames.forEach((name, i) => {
+			row[name] = values[i];
+		});
+		return row;
+	}
+
+	/**
+	 * Describes the source columns that pass through unchanged. Expanded
+	 * columns and arrays, whose values this view reshapes, are left out.
+	 */
+	getColumnSchema(): ColumnSchema[] {
+		return (this.source.getColumnSchema?.() ?? []).filter(
+			(column) =>
+				this.columnNames.includes(column.name) && column.type !== "object",
+		);
+	}
+
+	/**
+	 * Returns the keys leading to a column's value, starting with the source
+	 * column; a column that wasn't expanded has a path of length one.
+	 */
+	getColumnPath(columnName: string): string[] {
+		const index = this.columnNames.indexOf(columnName);
+		return index < 0 ? [columnName] : this.columnPaths[index];
+	}
+
+	/** Whether the object at a path is expanded into columns of its own. */
+	private shouldExpand(path: string[]): boolean {
+		const { paths, depth } = this.config;
+		if (paths) {
+			const dotted = path.join(PATH_SEPARATOR);
+			// Expanding "a.b" implies expanding "a" too.
+			return paths.some(
+				(p) => p === dotted || p.startsWith(dotted + PATH_SEPARATOR),
+			);
+		}
+		return path.length <= (depth ?? DEFAULT_FLATTEN_DEPTH);
+	}
+
+	/** Merges the nested keys of one value into the keys seen so far. */
+	private collectKeys(
+		value: unknown,
+		path: string[],
+		tree: KeyTree | null,
+	): KeyTree | null {
+		const plain = toPlain(value);
+		if (!isPlainObject(plain) || !this.shouldExpand(path)) {
+			return tree;
+		}
+		const keys: KeyTree = tree ?? new Map();
+		for (const [key, child] of Object.entries(plain)) {
+			keys.set(
+				key,
+				this.collectKeys(child, [...path, key], keys.get(key) ?? null),
+			);
+		}
+		return keys;
+	}
+
+	private leafPaths(path: string[], tree: KeyTree | null): string[][] {
+		if (!tree) return [path];
+		return [...tree.entries()].flatMap(([key, child]) =>
+			this.leafPaths([...path, key], child),
+		);
+	}
+
+	/** Turns a plain value into a cell, applying the array strategy. */
+	private toCell(value: unknown): CellTypes {
+		if (typeof value === "bigint") {
+			return value.toString();
+		}
+		if (Array.isArray(value)) {
+			const strategy = this.config.arrays ?? DEFAULT_ARRAY_STRATEGY;
+			const separator = this.config.separator ?? DEFAULT_ARRAY_SEPARATOR;
+			if (strategy === "count") {
+				return value.length;
+			}
+			if (strategy === "join") {
+				return value.map(itemText).join(separator);
+			}
+			const shown = value.slice(0, strategy.first).map(itemText);
+			if (value.length > strategy.first) {
+				shown.push(`+${value.length - strategy.first} more`);
+			}
+			return shown.join(separator);
+		}
+		if (isPlainObject(value)) {
+			// Unexpanded objects keep their nested Arrow values as plain data.
+			return JSON.parse(toJSONText(value));
+		}
+		return (value ?? null) as CellTypes;
+	}
+}
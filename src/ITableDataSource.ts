@@ -1,4 +1,4 @@
-import type { CellTypes, JSONObject } from "./types";
+import type { CellTypes, ColumnSchema, JSONObject } from "./types";
 
 /**
  * An interface representing a tabular data source.
@@ -8,4 +8,9 @@ export interface ITableDataSource {
 	getRowCount(): number;
 	getArrayRow(rowIndex: number): CellTypes[];
 	getObjectRow(rowIndex: number): JSONObject;
+	/**
+	 * Describes the columns, matched to them by name. Columns the source
+	 * can't describe may be left out; consumers infer those from the data.
+	 */
+	getColumnSchema?(): ColumnSchema[];
 }
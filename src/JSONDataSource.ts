@@ -1,5 +1,8 @@
 import type { ITableDataSource } from "./ITableDataSource";
-import type { CellTypes } from "./types";
+import { inferColumnType } from "./formatting";
+import type { CellTypes, ColumnSchema } from "./types";
+
+const SCHEMA_SAMPLE_SIZE = 1000;
 
 /** A standard JSON object representing a single row. */
 export type JSONObject = Record<string, CellTypes>;
@@ -10,6 +13,7 @@ export type JSONObject = Record<string, CellTypes>;
 export class JSONDataSource implements ITableDataSource {
 	private data: JSONObject[];
 	private columnNames: string[];
+	private columnSchema?: ColumnSchema[]; // Inferred on first use
 
 	constructor(jsonData: JSONObject[]) {
 		this.data = jsonData ?? [];
@@ -44,4 +48,22 @@ export class JSONDataSource implements ITableDataSource {
 		}
 		return this.data[rowIndex];
 	}
+
+	/**
+	 * Infers each column's type from the first rows. A column is nullable when
+	 * any of them lacks a value. Columns of nothing but nulls there are left
+	 * out, since their type is unknown.
+	 */
+	getColumnSchema(): ColumnSchema[] {
+		this.columnSchema ??= this.columnNames.flatMap((name) => {
+			const values = this.data
+				.slice(0, SCHEMA_SAMPLE_SIZE)
+				.map((row) => row[name] ?? null);
+			const type = inferColumnType(values);
+			return type === undefined
+				? []
+				: [{ name, type, nullable: values.includes(null) }];
+		});
+		return this.columnSchema;
+	}
 }
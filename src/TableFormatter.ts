@@ -1,17 +1,55 @@
 import type { ITableDataSource } from "./ITableDataSource";
 import type {
 	TableConfig,
+	AutoFormatConfig,
 	Style,
 	BorderChars,
+	BorderStyle,
 	FooterInfo,
 	TableTheme,
 	JSONObject,
+	Overflow,
+	CellTypes,
+	ColumnConfig,
+	ColumnType,
+	FlattenConfig,
+	GroupInfo,
+	HeaderGroup,
+	RowSeparatorConfig,
+	RuleChars,
+	SortIndicators,
+	SubtotalConfig,
+	TitleConfig,
+	TreeNodeInfo,
 } from "./types";
 import chalk, {
 	type BackgroundColorName,
 	type ForegroundColorName,
 } from "chalk";
 import stringWidth from "string-width";
+import { computeAggregate } from "./aggregates";
+import {
+	getDottedLine,
+	getHeaderWall,
+	resolveRules,
+	type RuleKind,
+	hasRuleOverrides,
+	validateBorder,
+} from "./borders";
+import { sortRowIndices } from "./sorting";
+import {
+	formatNumber,
+	formatTimestamp,
+	formatWithIntl,
+	getNumberSymbols,
+	inferColumnType,
+	type NumberSymbols,
+	toNumber,
+} from "./formatting";
+import { FilteredDataSource } from "./FilteredDataSource";
+import { ComputedDataSource } from "./ComputedDataSource";
+import { FlattenedDataSource } from "./FlattenedDataSource";
+import { TreeDataSource } from "./TreeDataSource";
 
 export const SINGLE_LINE_BORDER: BorderChars = {
 	horizontal: "─",
@@ -26,6 +64,8 @@ export const SINGLE_LINE_BORDER: BorderChars = {
 	middleSeparator: "┼",
 	bottomSeparator: "┴",
 	cellSeparator: "│",
+	scrollLeft: "◀",
+	scrollRight: "▶",
 };
 
 export const DOUBLE_LINE_BORDER: BorderChars = {
@@ -41,6 +81,157 @@ export const DOUBLE_LINE_BORDER: BorderChars = {
 	middleSeparator: "╬",
 	bottomSeparator: "╩",
 	cellSeparator: "║",
+	scrollLeft: "◀",
+	scrollRight: "▶",
+};
+
+export const ROUNDED_BORDER: BorderChars = {
+	...SINGLE_LINE_BORDER,
+	topLeft: "╭",
+	topRight: "╮",
+	bottomLeft: "╰",
+	bottomRight: "╯",
+};
+
+export const HEAVY_BORDER: BorderChars = {
+	horizontal: "━",
+	vertical: "┃",
+	topLeft: "┏",
+	topRight: "┓",
+	bottomLeft: "┗",
+	bottomRight: "┛",
+	headerLeft: "┣",
+	headerRight: "┫",
+	topSeparator: "┳",
+	middleSeparator: "╋",
+	bottomSeparator: "┻",
+	cellSeparator: "┃",
+	scrollLeft: "◀",
+	scrollRight: "▶",
+};
+
+export const ASCII_BORDER: BorderChars = {
+	horizontal: "-",
+	vertical: "|",
+	topLeft: "+",
+	topRight: "+",
+	bottomLeft: "+",
+	bottomRight: "+",
+	headerLeft: "+",
+	headerRight: "+",
+	topSeparator: "+",
+	middleSeparator: "+",
+	bottomSeparator: "+",
+	cellSeparator: "|",
+	scrollLeft: "<",
+	scrollRight: ">",
+};
+
+export const DASHED_BORDER: BorderChars = {
+	...SINGLE_LINE_BORDER,
+	horizontal: "╌",
+	vertical: "╎",
+	cellSeparator: "╎",
+};
+
+// Column walls and rules, without the outer frame. Scroll markers get a
+// gutter of their own at the edges.
+export const COMPACT_BORDER: BorderChars = {
+	...SINGLE_LINE_BORDER,
+	vertical: "",
+	topLeft: "",
+	topRight: "",
+	bottomLeft: "",
+	bottomRight: "",
+	headerLeft: "",
+	headerRight: "",
+};
+
+// No lines at all, just a space between columns. Scroll markers get a
+// gutter of their own at the edges.
+export const BORDERLESS_BORDER: BorderChars = {
+	horizontal: "",
+	vertical: "",
+	topLeft: "",
+	topRight: "",
+	bottomLeft: "",
+	bottomRight: "",
+	headerLeft: "",
+	headerRight: "",
+	topSeparator: "",
+	middleSeparator: "",
+	bottomSeparator: "",
+	cellSeparator: " ",
+	scrollLeft: "◀",
+	scrollRight: "▶",
+};
+
+// Pipe-table syntax: no top or bottom border, and `|` at every junction.
+export const MARKDOWN_BORDER: BorderChars = {
+	...ASCII_BORDER,
+	topLeft: "",
+	topRight: "",
+	bottomLeft: "",
+	bottomRight: "",
+	headerLeft: "|",
+	headerRight: "|",
+	topSeparator: "|",
+	middleSeparator: "|",
+	bottomSeparator: "|",
+};
+
+export const HEAVY_HEADER_BORDER: BorderChars = {
+	...SINGLE_LINE_BORDER,
+	headerRule: {
+		horizontal: "━",
+		left: "┝",
+		right: "┥",
+		cross: "┿",
+		down: "┯",
+		up: "┷",
+	},
+};
+
+export const DOUBLE_HEADER_BORDER: BorderChars = {
+	...SINGLE_LINE_BORDER,
+	headerRule: {
+		horizontal: "═",
+		left: "╞",
+		right: "╡",
+		cross: "╪",
+		down: "╤",
+		up: "╧",
+	},
+};
+
+// Heavy outer walls and borders; the rules inside stay light.
+export const HEAVY_FRAME_BORDER: BorderChars = {
+	...SINGLE_LINE_BORDER,
+	vertical: "┃",
+	headerCellSeparator: "│",
+	topLeft: "┏",
+	topRight: "┓",
+	bottomLeft: "┗",
+	bottomRight: "┛",
+	headerLeft: "┠",
+	headerRight: "┨",
+	top: { horizontal: "━", down: "┯" },
+	bottom: { horizontal: "━", up: "┷" },
+};
+
+export const BORDER_PRESETS: Record<BorderStyle, BorderChars> = {
+	single: SINGLE_LINE_BORDER,
+	double: DOUBLE_LINE_BORDER,
+	rounded: ROUNDED_BORDER,
+	heavy: HEAVY_BORDER,
+	ascii: ASCII_BORDER,
+	dashed: DASHED_BORDER,
+	compact: COMPACT_BORDER,
+	borderless: BORDERLESS_BORDER,
+	markdown: MARKDOWN_BORDER,
+	"heavy-header": HEAVY_HEADER_BORDER,
+	"double-header": DOUBLE_HEADER_BORDER,
+	"heavy-frame": HEAVY_FRAME_BORDER,
 };
 
 export const CHALK_COLOR_NAMES: ForegroundColorName[] = [
@@ -94,28 +285,245 @@ export const CHALK_BACKGROUND_COLOR_NAMES: BackgroundColorName[] =
 // --- Default Settings ---
 const DEFAULT_PADDING = { left: 1, right: 1 };
 const DEFAULT_TRUNCATION_CHAR = "…";
+const DEFAULT_OVERFLOW: Overflow = "truncate";
+const DEFAULT_MIN_READABLE_WIDTH = 5;
+const DEFAULT_ROW_NUMBER_HEADER = "#";
+const DEFAULT_ROW_NUMBER_BASE = 1;
+// Row index passed to formatters when they format a summary value.
+const SUMMARY_ROW_INDEX = -1;
+// Key of the virtual row number column; cannot clash with a real column name.
+const ROW_NUMBER_COLUMN = "\u0000rowNumber";
+const DEFAULT_GROUP_LABEL = (group: GroupInfo) =>
+	`${group.column}: ${group.value ?? ""} (${group.rowCount} ${group.rowCount === 1 ? "row" : "rows"})`;
+const GROUP_INDENT = "  ";
+const TREE_BRANCH = "├─ ";
+const TREE_LAST_BRANCH = "└─ ";
+const TREE_PIPE = "│  ";
+const TREE_SPACE = "   ";
+const DEFAULT_SORT_INDICATORS: SortIndicators = { asc: "▲", desc: "▼" };
+const DEFAULT_SECTION_FOOTER = (info: FooterInfo, keyLabels: string[]) => {
+	const range =
+		info.columnEnd - info.columnStart === 1
+			? `Column ${info.columnEnd} of ${info.totalColumns}`
+			: `Columns ${info.columnStart + 1}-${info.columnEnd} of ${info.totalColumns}`;
+	return keyLabels.length > 0
+		? `${range}, with ${keyLabels.join(", ")}`
+		: range;
+};
+const DEFAULT_BOOLEAN_GLYPHS = { true: "✓", false: "✗" };
+const DEFAULT_NULL_TEXT = "—";
+const DEFAULT_TIMESTAMP_FORMAT = "YYYY-MM-DD HH:mm:ss";
+const LINE_BREAK = /\r?\n/;
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[([0-9;]*)m`, "g");
+const ANSI_TOKEN = new RegExp(`(${String.fromCharCode(27)}\\[[0-9;]*m)`);
+// The code that turns off each text attribute; colors are handled apart.
+const SGR_RESETS: Record<number, string> = {
+	1: "22",
+	2: "22",
+	3: "23",
+	4: "24",
+	7: "27",
+	8: "28",
+	9: "29",
+};
 const DEFAULT_BORDER: BorderChars = SINGLE_LINE_BORDER;
 
-const DEFAULT_THEME: TableTheme = {
+const DEFAULT_THEME: Required<TableTheme> = {
 	header: { bold: true },
 	cell: {},
 	alternatingCell: { color: "gray" },
 	footer: { color: "gray" },
+	headerGroup: { bold: true },
+	summary: { bold: true },
+	group: { bold: true },
+	subtotal: { italic: true },
+	title: { bold: true },
+	caption: { italic: true },
+	placeholder: { dim: true },
 };
 
+/** The formatted content of the displayed columns, ready for layout. */
+interface TableContent {
+	columnNames: string[];
+	headerLabels: string[];
+	rows: string[][]; // Formatted cells of each data row
+	rowIndices: number[]; // Source row index of each data row
+	stripes: number[]; // Index of each data row for alternating styles
+	treeGuides?: TreeGuide[]; // Guides drawn in the tree column of each data row
+	groupRows: GroupRow[]; // Group headers and subtotals, in render order
+	summary?: string[]; // Formatted cells of the summary row
+	decimals?: (DecimalLayout | undefined)[]; // Layout of each decimal-aligned column
+}
+
+/**
+ * Finds the last decimal separator in a value that is followed by a digit,
+ * so a trailing full stop in text isn't taken for one. Returns -1 if none.
+ */
+function findDecimalPoint(text: string, separator: string): number {
+	let point = text.lastIndexOf(separator);
+	while (point >= 0 && !/\d/.test(text[point + separator.length] ?? "")) {
+		point = text.lastIndexOf(separator, point - 1);
+	}
+	return point;
+}
+
+/** The SGR code that turns off what the given SGR parameters turn on, if any. */
+function getSgrReset(params: string): string | undefined {
+	const code = Number(params.split(";")[0]);
+	if ((code >= 30 && code <= 38) || (code >= 90 && code <= 97)) return "39";
+	if ((code >= 40 && code <= 48) || (code >= 100 && code <= 107)) return "49";
+	return SGR_RESETS[code];
+}
+
+/**
+ * Closes the ANSI styles still open at the end of each wrapped line and
+ * reopens them at the start of the next, so a style never spills over the
+ * padding and walls in between.
+ */
+function carryStyles(lines: string[]): string[] {
+	const open = new Map<string, string>(); // Reset code of each open style
+	return lines.map((line) => {
+		const reopened = [...open.keys()].join("");
+		for (const [sequence, params] of line.matchAll(ANSI_ESCAPE)) {
+			const reset = getSgrReset(params);
+			if (params === "" || params === "0") {
+				open.clear();
+			} else if (reset) {
+				open.set(sequence, reset);
+			} else {
+				for (const [style, styleReset] of open) {
+					if (styleReset === params) open.delete(style);
+				}
+			}
+		}
+		const closed = [...new Set(open.values())]
+			.map((reset) => `\u001b[${reset}m`)
+			.join("");
+		return reopened + line + closed;
+	});
+}
+
+/** How far a decimal-aligned column's values reach either side of the point. */
+interface DecimalLayout {
+	integerWidth: number;
+	fractionWidth: number; // Including the separator itself
+}
+
+/** The tree guides of a row: before its first line, and before any wrapped lines. */
+interface TreeGuide {
+	prefix: string;
+	continuation: string;
+}
+
+/** A group header or subtotal row, rendered before the data row at `before`. */
+type GroupRow =
+	| { kind: "header"; before: number; label: string }
+	| { kind: "subtotal"; before: number; cells: string[] };
+
+/** A run of rows sharing a group key, as a range of positions in display order. */
+interface RowGroup extends GroupInfo {
+	start: number;
+	end: number;
+}
+
+/** Where a column sits relative to the horizontally scrolling window. */
+type ColumnZone = "left" | "scroll" | "right";
+
+/** Wall indices (0 is the outer left wall) that get scroll markers. */
+interface ScrollMarkers {
+	before?: number;
+	after?: number;
+}
+
+/** A header group resolved to the range of column indices it spans. */
+interface HeaderSpan {
+	label: string;
+	start: number;
+	end: number;
+	style?: Style;
+}
+
 /**
  * Renders a data source into a styled, formatted text table with support for resizing.
  */
 export class TableFormatter {
 	private readonly source: ITableDataSource;
+	private readonly filteredSource?: FilteredDataSource;
+	private readonly flattenedSource?: FlattenedDataSource;
+	private readonly treeSource?: TreeDataSource;
+	private readonly filteredTreeInfo?: TreeNodeInfo[]; // Of each row left by a filter on the tree
 	private readonly config: TableConfig;
 	private readonly borderChars: BorderChars;
-	private readonly theme: TableTheme;
+	private readonly rules: Record<RuleKind, RuleChars>;
+	private readonly theme: Required<TableTheme>; // The config's theme merged over the defaults
+	private numberSymbols?: NumberSymbols; // Of the locale, looked up on first use
+	private columnTypes = new Map<string, ColumnType>(); // Of the rows being rendered, with `autoFormat`
+	private scrollGutter = false; // Whether empty outer walls widen to hold scroll markers
+	private wrapWidths = new Map<string, number>(); // Narrowest width of each wrapping column, of the rows being rendered
 
 	constructor(source: ITableDataSource, config: TableConfig = {}) {
-		this.source = source;
 		this.config = config;
-		this.borderChars = { ...DEFAULT_BORDER, ...config.border };
+
+		// The source is wrapped in views, innermost first: the tree, flattening,
+		// computed columns, then a filter of the matching rows, so computed
+		// columns can use flattened values and filters can test both. The same
+		// bookkeeping applies when the caller passes a filtered view directly,
+		// unless a tree sits on top of it: tree rows don't map back to its rows.
+		if (config.tree) {
+			this.treeSource = new TreeDataSource(source, config.tree);
+		}
+		const treeRows = this.treeSource ?? source;
+		if (config.flatten !== undefined) {
+			this.flattenedSource = new FlattenedDataSource(
+				treeRows,
+				this.getFlattenConfig(),
+			);
+		}
+		const flattened = this.flattenedSource ?? treeRows;
+		// Check every column reference up front, before the filter view needs
+		// its column. Computed columns count as known ones.
+		const knownColumns = flattened.getColumnNames();
+		if (knownColumns.length > 0) {
+			this.validateColumnReferences([
+				...knownColumns,
+				...Object.keys(config.computed ?? {}),
+			]);
+		}
+		const withComputed = config.computed
+			? new ComputedDataSource(flattened, config.computed)
+			: flattened;
+		if (config.filter) {
+			let filtered = new FilteredDataSource(withComputed, config.filter);
+			if (this.treeSource) {
+				// Matching rows keep their branch, and the guides are redrawn for
+				// the rows that are left.
+				const treeRows = this.treeSource.withAncestors(
+					Array.from({ length: filtered.getRowCount() }, (_, i) =>
+						filtered.getSourceRowIndex(i),
+					),
+				);
+				const kept = new Set(treeRows);
+				filtered = new FilteredDataSource(withComputed, (_, index) =>
+					kept.has(index),
+				);
+				this.filteredTreeInfo = this.treeSource.getSubtreeInfo(treeRows);
+			}
+			this.source = filtered;
+			this.filteredSource = filtered;
+		} else {
+			this.source = withComputed;
+			if (source instanceof FilteredDataSource && !this.treeSource) {
+				this.filteredSource = source;
+			}
+		}
+		this.borderChars = this.resolveBorder(config.border);
+		if (
+			typeof config.border === "string" ||
+			hasRuleOverrides(config.border ?? {})
+		) {
+			validateBorder(this.borderChars);
+		}
+		this.rules = resolveRules(this.borderChars);
 		this.theme = {
 			...DEFAULT_THEME,
 			...config.theme,
@@ -127,9 +535,33 @@ export class TableFormatter {
 				...config.theme?.alternatingCell,
 			},
 			footer: { ...DEFAULT_THEME.footer, ...config.theme?.footer },
+			headerGroup: {
+				...DEFAULT_THEME.headerGroup,
+				...config.theme?.headerGroup,
+			},
+			summary: { ...DEFAULT_THEME.summary, ...config.theme?.summary },
+			group: { ...DEFAULT_THEME.group, ...config.theme?.group },
+			subtotal: { ...DEFAULT_THEME.subtotal, ...config.theme?.subtotal },
+			title: { ...DEFAULT_THEME.title, ...config.theme?.title },
+			caption: { ...DEFAULT_THEME.caption, ...config.theme?.caption },
+			placeholder: {
+				...DEFAULT_THEME.placeholder,
+				...config.theme?.placeholder,
+			},
 		};
 	}
 
+	/** Looks up a border preset by name, or merges characters over the default border. */
+	private resolveBorder(border: TableConfig["border"]): BorderChars {
+		if (typeof border === "string") {
+			if (!Object.keys(BORDER_PRESETS).includes(border)) {
+				throw new Error(`Unknown border preset "${border}"`);
+			}
+			return BORDER_PRESETS[border];
+		}
+		return { ...DEFAULT_BORDER, ...border };
+	}
+
 	/**
 	 * Applies a style object to a string using chalk.
 	 * Supports basic color names and hex codes.
@@ -179,167 +611,1597 @@ export class TableFormatter {
 		if (style.bold) styler = styler.bold;
 		if (style.italic) styler = styler.italic;
 		if (style.underline) styler = styler.underline;
+		if (style.dim) styler = styler.dim;
 		return styler(text);
 	}
 
-	public render(): string {
-		// 1. Determine available width. Use configured maxWidth, else terminal width, else 80.
-		const availableWidth = this.config.maxWidth ?? process.stdout.columns ?? 80;
+	/**
+	 * Resolves a column's configuration. The built-in row number column is
+	 * configured through `rowNumbers` rather than `columns`.
+	 */
+	private getColumnConfig(colName: string): ColumnConfig | undefined {
+		if (colName === ROW_NUMBER_COLUMN) {
+			return this.getRowNumberColumnConfig();
+		}
+		const columnConfig = this.config.columns?.[colName];
+		// Numbers, by format or auto formatted, default to the right.
+		const format = columnConfig?.format;
+		if (
+			columnConfig?.alignment === undefined &&
+			((format && format.type !== "date") ||
+				this.columnTypes.get(colName) === "number")
+		) {
+			return { ...columnConfig, alignment: "right" };
+		}
+		return columnConfig;
+	}
+
+	/**
+	 * Builds the configuration of the row number column. Its minimum width fits
+	 * the largest index in the whole source, so it is never truncated and keeps
+	 * its width from page to page.
+	 */
+	private getRowNumberColumnConfig(): ColumnConfig {
+		const options =
+			typeof this.config.rowNumbers === "object" ? this.config.rowNumbers : {};
+		const header = options.header ?? DEFAULT_ROW_NUMBER_HEADER;
+		const base = options.base ?? DEFAULT_ROW_NUMBER_BASE;
+		const rowCount =
+			this.filteredSource?.getTotalRowCount() ?? this.source.getRowCount();
+		const largestIndex = Math.max(0, rowCount - 1) + base;
+		return {
+			header,
+			alignment: options.alignment ?? "right",
+			style: options.style,
+			headerStyle: options.headerStyle,
+			minWidth: Math.max(stringWidth(header), String(largestIndex).length),
+			pinned: "left",
+		};
+	}
+
+	/** Normalizes `autoFormat: true` to the default options. */
+	private getAutoFormatConfig(): AutoFormatConfig {
+		const { autoFormat } = this.config;
+		return typeof autoFormat === "object" ? autoFormat : {};
+	}
+
+	/** Normalizes the `flatten` shorthands (a depth or a list of paths) to options. */
+	private getFlattenConfig(): FlattenConfig {
+		const { flatten } = this.config;
+		if (typeof flatten === "number") return { depth: flatten };
+		if (Array.isArray(flatten)) return { paths: flatten };
+		return flatten ?? {};
+	}
+
+	/** Resolves a column's padding: column override, then table-wide, then default. */
+	private getColumnPadding(colName: string): { left: number; right: number } {
+		return (
+			this.getColumnConfig(colName)?.padding ??
+			this.config.padding ??
+			DEFAULT_PADDING
+		);
+	}
+
+	public render(): string {
+		// 1. Determine available width. Use configured maxWidth, else terminal width, else 80.
+		const availableWidth = this.config.maxWidth ?? process.stdout.columns ?? 80;
+
+		const sourceColumnNames = this.source.getColumnNames();
+		if (sourceColumnNames.length === 0) {
+			return this.applyStyle("(No data)", this.theme.cell);
+		}
+		const displayColumnNames = this.selectDisplayColumns(sourceColumnNames);
+		if (displayColumnNames.length === 0) {
+			return this.applyStyle("(No data)", this.theme.cell);
+		}
+
+		// Pinned columns always render; the rest are windowed by the column
+		// offset and limit, the same way rows are. The row number column, when
+		// enabled, is pinned to the left.
+		const allColumnNames = this.config.rowNumbers
+			? [ROW_NUMBER_COLUMN, ...displayColumnNames]
+			: displayColumnNames;
+		const { columnIndices, columnZones, columnsBefore, columnsAfter } =
+			this.selectColumnWindow(allColumnNames);
+		this.scrollGutter = columnsBefore > 0 || columnsAfter > 0;
+		const columnNames = columnIndices.map((i) => allColumnNames[i]);
+		const sourceIndices = columnNames.map((name) =>
+			sourceColumnNames.indexOf(name),
+		);
+		const rowNumberBase =
+			typeof this.config.rowNumbers === "object"
+				? (this.config.rowNumbers.base ?? DEFAULT_ROW_NUMBER_BASE)
+				: DEFAULT_ROW_NUMBER_BASE;
+
+		// 2. Paginate data by getting the subset of rows to be displayed.
+		const matchedRows = this.source.getRowCount();
+		const totalRows = this.filteredSource?.getTotalRowCount() ?? matchedRows;
+		const rowOffset = this.config.rowOffset ?? 0;
+		const rowLimit = this.config.rowLimit ?? matchedRows;
+		const startRow = Math.max(0, rowOffset);
+		const endRow = Math.min(matchedRows, startRow + rowLimit);
+		const footerInfo: FooterInfo = {
+			totalRows,
+			matchedRows,
+			displayedRows: endRow - startRow,
+			isTruncated: matchedRows > rowLimit,
+			startRow,
+			endRow,
+			hiddenColumns: [],
+			columnStart: 0,
+			columnEnd: displayColumnNames.length,
+			totalColumns: displayColumnNames.length,
+			columnsBefore,
+			columnsAfter,
+		};
+		// Sorting and then grouping reorder the rows so each group's rows are
+		// contiguous; pagination then applies to that order. Trees keep their
+		// depth-first order, which either would break.
+		if (this.config.tree && (this.config.sort || this.config.groupBy)) {
+			throw new Error("A tree table cannot also be sorted or grouped");
+		}
+		const allRows = Array.from({ length: matchedRows }, (_, i) => i);
+		const sortedRows = this.config.sort
+			? sortRowIndices(this.source, allRows, this.config.sort)
+			: allRows;
+		const { order, groups } = this.groupRows(sourceColumnNames, sortedRows);
+		const rowIndices = order.slice(startRow, endRow);
+		const groupRows = this.resolveGroupRows(
+			groups,
+			startRow,
+			endRow,
+			columnNames,
+			sourceIndices,
+			order,
+		);
+
+		// Alternating styles restart at the top of each innermost group.
+		const groupStarts = order.map(() => 0);
+		for (const group of groups) {
+			groupStarts.fill(group.start, group.start, group.end);
+		}
+
+		// 3. Format the data window by applying per-column formatters. Formatters
+		// also get the whole source row, so only read it when there are any.
+		const pageRows = rowIndices.map((i) => this.source.getArrayRow(i));
+		this.columnTypes = this.getColumnTypes(
+			columnNames,
+			sourceIndices,
+			pageRows,
+		);
+		const hasFormatters = columnNames.some(
+			(name) => this.getColumnConfig(name)?.formatter,
+		);
+		const treeGuides = this.treeSource
+			? rowIndices.map((i) => this.getTreeGuide(i))
+			: undefined;
+		const content: TableContent = {
+			columnNames,
+			headerLabels: columnNames.map((name) => this.getHeaderLabel(name)),
+			rows: rowIndices.map((i, rowPosition) => {
+				const row = pageRows[rowPosition];
+				const rowObject = hasFormatters ? this.source.getObjectRow(i) : {};
+				const cells = columnNames.map((colName, colIdx) =>
+					// The row number column shows the absolute source row index,
+					// from before any filtering.
+					colName === ROW_NUMBER_COLUMN
+						? this.formatCell(
+								(this.filteredSource?.getSourceRowIndex(i) ?? i) +
+									rowNumberBase,
+								colName,
+								i,
+								rowObject,
+							)
+						: this.formatCell(
+								row[sourceIndices[colIdx]],
+								colName,
+								i,
+								rowObject,
+							),
+				);
+				// Tree guides are part of the text, so they count toward widths.
+				const treeColumn = columnNames.indexOf(this.config.tree?.column ?? "");
+				if (treeGuides && treeColumn >= 0) {
+					cells[treeColumn] =
+						treeGuides[rowPosition].prefix + cells[treeColumn];
+				}
+				return cells;
+			}),
+			rowIndices,
+			treeGuides,
+			stripes: rowIndices.map(
+				(_, i) => startRow + i - groupStarts[startRow + i],
+			),
+			groupRows,
+			summary: this.formatSummary(columnNames, sourceIndices, rowIndices),
+		};
+
+		// 4. Calculate the ideal column widths based on content. Decimal-aligned
+		// columns also need room for their values once lined up.
+		const cellRows = [
+			...content.rows,
+			...content.groupRows.flatMap((row) =>
+				row.kind === "subtotal" ? [row.cells] : [],
+			),
+			...(content.summary ? [content.summary] : []),
+		];
+		content.decimals = this.measureDecimals(content.columnNames, cellRows);
+		this.wrapWidths = this.measureWrapWidths(
+			content.columnNames,
+			content.headerLabels,
+			cellRows,
+		);
+		const idealWidths = this.calculateColumnWidths(
+			content.headerLabels,
+			cellRows,
+		).map((width, i) => {
+			const decimal = content.decimals?.[i];
+			return decimal
+				? Math.max(width, decimal.integerWidth + decimal.fractionWidth)
+				: width;
+		});
+
+		// Render one key/value block per row when asked to.
+		const layout = this.config.layout ?? "horizontal";
+		if (layout === "vertical") {
+			return this.addTitleAndCaption(
+				this.renderRecords(content, availableWidth, footerInfo),
+			);
+		}
+
+		// Split columns into stacked sections instead of hiding or squeezing them.
+		if (this.config.columnPaging) {
+			return this.renderColumnSections(
+				content,
+				idealWidths,
+				availableWidth,
+				footerInfo,
+			);
+		}
+
+		// 5. Hide low-priority columns that don't fit, then distribute the
+		// available space among the columns that remain.
+		const visible = this.selectVisibleColumns(
+			idealWidths,
+			availableWidth,
+			columnNames,
+		);
+		const visibleIdealWidths = visible.map((i) => idealWidths[i]);
+		const visibleContent = this.pickColumns(content, visible);
+		const finalWidths = this.distributeWidths(
+			visibleIdealWidths,
+			availableWidth,
+			visibleContent.columnNames,
+		);
+
+		// Fall back to records in auto layout when, even after hiding columns,
+		// the horizontal layout would squeeze columns past readability.
+		if (
+			layout === "auto" &&
+			this.isUnreadable(visibleIdealWidths, finalWidths)
+		) {
+			return this.addTitleAndCaption(
+				this.renderRecords(content, availableWidth, footerInfo),
+			);
+		}
+
+		// Mark the walls where columns are scrolled out of view.
+		const visibleZones = visible.map((i) => columnZones[i]);
+		const leftCount = visibleZones.filter((zone) => zone === "left").length;
+		const scrollCount = visibleZones.filter((zone) => zone === "scroll").length;
+		const markers: ScrollMarkers = {
+			before: columnsBefore > 0 ? leftCount : undefined,
+			after: columnsAfter > 0 ? leftCount + scrollCount : undefined,
+		};
+
+		return this.addTitleAndCaption(
+			this.renderTable(
+				visibleContent,
+				finalWidths,
+				{
+					...footerInfo,
+					hiddenColumns: columnNames.filter((_, i) => !visible.includes(i)),
+				},
+				this.config.footer,
+				markers,
+			),
+		);
+	}
+
+	/**
+	 * Normalizes the `rowSeparator` option; undefined when no rules are drawn
+	 * between data rows. Counting with `every` restarts in each group, like
+	 * alternating row styles.
+	 */
+	private getRowSeparator(): RowSeparatorConfig | undefined {
+		const { rowSeparator = "none" } = this.config;
+		if (rowSeparator === "none") return undefined;
+		if (rowSeparator === "all") return {};
+		if (typeof rowSeparator === "function") return { when: rowSeparator };
+		const { every } = rowSeparator;
+		if (every !== undefined && !(Number.isInteger(every) && every > 0)) {
+			throw new Error(
+				`rowSeparator.every must be a positive integer, got ${every}`,
+			);
+		}
+		return rowSeparator;
+	}
+
+	/**
+	 * Applies `columnOrder` and `hiddenColumns` to the source's columns. Hidden
+	 * columns are only left out of the layout; their values still reach
+	 * styles and formatters through the source row.
+	 */
+	private selectDisplayColumns(sourceColumnNames: string[]): string[] {
+		const hidden = new Set(this.config.hiddenColumns);
+		return (this.config.columnOrder ?? sourceColumnNames).filter(
+			(name, i, names) => !hidden.has(name) && names.indexOf(name) === i,
+		);
+	}
+
+	/**
+	 * Throws if any config key refers to a column the data source doesn't
+	 * have, which is almost always a typo that would otherwise go unnoticed.
+	 */
+	private validateColumnReferences(sourceColumnNames: string[]): void {
+		const { config } = this;
+		const groupBy = config.groupBy ?? [];
+		const references: [string, string[]][] = [
+			["columns", Object.keys(config.columns ?? {})],
+			["columnOrder", config.columnOrder ?? []],
+			["hiddenColumns", config.hiddenColumns ?? []],
+			[
+				"headerGroups",
+				(config.headerGroups ?? []).flat().flatMap((group) => group.columns),
+			],
+			["columnPaging.keyColumns", config.columnPaging?.keyColumns ?? []],
+			["summary.columns", Object.keys(config.summary?.columns ?? {})],
+			["subtotals.columns", Object.keys(config.subtotals?.columns ?? {})],
+			["sort", (config.sort ?? []).map((key) => key.column)],
+			["groupBy", typeof groupBy === "string" ? [groupBy] : groupBy],
+			[
+				"filter",
+				config.filter && typeof config.filter !== "function"
+					? [config.filter.column]
+					: [],
+			],
+			[
+				"computed.after",
+				Object.values(config.computed ?? {}).flatMap((column) =>
+					column.after === undefined ? [] : [column.after],
+				),
+			],
+			["tree.column", config.tree ? [config.tree.column] : []],
+		];
+
+		const known = new Set(sourceColumnNames);
+		const unknown = references.flatMap(([key, names]) =>
+			names
+				.filter((name) => !known.has(name))
+				.map((name) => `"${name}" (${key})`),
+		);
+		if (unknown.length > 0) {
+			throw new Error(`Unknown columns in table config: ${unknown.join(", ")}`);
+		}
+	}
+
+	/**
+	 * Builds the guides for a displayed row of a tree table. Root rows have
+	 * none; below them, each level is one guide wide.
+	 */
+	private getTreeGuide(rowIndex: number): TreeGuide {
+		const info =
+			this.filteredTreeInfo?.[rowIndex] ??
+			this.treeSource?.getNodeInfo(rowIndex);
+		if (!info || info.depth === 0) {
+			return { prefix: "", continuation: "" };
+		}
+		const ancestors = info.ancestorsLast
+			.slice(1)
+			.map((isLast) => (isLast ? TREE_SPACE : TREE_PIPE))
+			.join("");
+		return {
+			prefix: ancestors + (info.isLast ? TREE_LAST_BRANCH : TREE_BRANCH),
+			continuation: ancestors + (info.isLast ? TREE_SPACE : TREE_PIPE),
+		};
+	}
+
+	/**
+	 * Picks the type of each column for `autoFormat`: its declared `type`, the
+	 * type in the data source's schema, or the type of the values in the
+	 * displayed rows.
+	 */
+	private getColumnTypes(
+		columnNames: string[],
+		sourceIndices: number[],
+		rows: CellTypes[][],
+	): Map<string, ColumnType> {
+		const types = new Map<string, ColumnType>();
+		if (!this.config.autoFormat) return types;
+		const schema = new Map(
+			(this.source.getColumnSchema?.() ?? []).map((column) => [
+				column.name,
+				column.type,
+			]),
+		);
+		columnNames.forEach((colName, i) => {
+			if (colName === ROW_NUMBER_COLUMN) return;
+			const type =
+				this.config.columns?.[colName]?.type ??
+				schema.get(colName) ??
+				inferColumnType(rows.map((row) => row[sourceIndices[i]] ?? null));
+			if (type) types.set(colName, type);
+		});
+		return types;
+	}
+
+	/**
+	 * Formats a cell with its column's formatter or declarative format, by
+	 * its type with `autoFormat`, or with a plain string conversion.
+	 */
+	private formatCell(
+		cell: CellTypes,
+		colName: string,
+		rowIndex: number,
+		row: JSONObject = {},
+	): string {
+		const columnConfig = this.getColumnConfig(colName);
+		if (columnConfig?.formatter) {
+			return columnConfig.formatter(cell, rowIndex, row);
+		}
+		if (columnConfig?.format) {
+			const text = formatWithIntl(
+				cell,
+				columnConfig.format,
+				this.config.locale,
+			);
+			if (text !== undefined) return text;
+		}
+		if (this.config.autoFormat && colName !== ROW_NUMBER_COLUMN) {
+			const text = this.autoFormatCell(cell, this.columnTypes.get(colName));
+			if (text !== undefined) return text;
+		}
+		if (typeof cell === "object" && cell !== null) {
+			return JSON.stringify(cell);
+		}
+		return String(cell ?? "");
+	}
+
+	/**
+	 * Formats a value by its type for `autoFormat`. Numeric strings and ISO
+	 * timestamps are only reformatted in columns of that type. Returns
+	 * undefined for values left to the plain conversion.
+	 */
+	private autoFormatCell(
+		cell: CellTypes,
+		type: ColumnType | undefined,
+	): string | undefined {
+		const options = this.getAutoFormatConfig();
+		if (cell === null || cell === undefined) {
+			// Styled with the rest of the cell, see `getCellStyle`.
+			return options.nullText ?? DEFAULT_NULL_TEXT;
+		}
+		if (typeof cell === "boolean") {
+			const glyphs = options.booleans ?? DEFAULT_BOOLEAN_GLYPHS;
+			return cell ? glyphs.true : glyphs.false;
+		}
+		if (
+			typeof cell === "number" ||
+			(type === "number" &&
+				typeof cell === "string" &&
+				toNumber(cell) !== undefined)
+		) {
+			return formatNumber(
+				cell,
+				options.grouping ?? true,
+				options.precision,
+				this.getLocaleSymbols(),
+			);
+		}
+		if (type === "timestamp" && typeof cell === "string") {
+			return formatTimestamp(
+				cell,
+				options.timestampFormat ?? DEFAULT_TIMESTAMP_FORMAT,
+			);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Computes and formats the summary row, if one is configured. Aggregates
+	 * run over the whole data source, or only over the displayed rows when the
+	 * summary scope is "page".
+	 */
+	private formatSummary(
+		columnNames: string[],
+		sourceIndices: number[],
+		pageRowIndices: number[],
+	): string[] | undefined {
+		const summary = this.config.summary;
+		if (!summary) return undefined;
+
+		const scopeRowIndices =
+			summary.scope === "page"
+				? pageRowIndices
+				: Array.from({ length: this.source.getRowCount() }, (_, i) => i);
+		return this.formatAggregates(
+			summary,
+			columnNames,
+			sourceIndices,
+			scopeRowIndices,
+		);
+	}
+
+	/**
+	 * Aggregates the given source rows into one row of formatted cells. The
+	 * label goes into the first column that has no aggregate.
+	 */
+	private formatAggregates(
+		aggregates: SubtotalConfig,
+		columnNames: string[],
+		sourceIndices: number[],
+		rowIndices: number[],
+	): string[] {
+		const rows = rowIndices.map((i) => this.source.getArrayRow(i));
+
+		let label = aggregates.label;
+		return columnNames.map((colName, colIdx) => {
+			const aggregate = aggregates.columns[colName];
+			if (aggregate && sourceIndices[colIdx] >= 0) {
+				const values = rows.map((row) => row[sourceIndices[colIdx]]);
+				return this.formatCell(
+					computeAggregate(aggregate, values),
+					colName,
+					SUMMARY_ROW_INDEX,
+				);
+			}
+			if (label !== undefined) {
+				const text = label;
+				label = undefined;
+				return text;
+			}
+			return "";
+		});
+	}
+
+	/**
+	 * Returns a column's header text, with a direction indicator appended when
+	 * the table is sorted by that column.
+	 */
+	private getHeaderLabel(colName: string): string {
+		const label =
+			this.getColumnConfig(colName)?.header ?? this.getDefaultHeader(colName);
+		const sortKey = this.config.sort?.find((key) => key.column === colName);
+		const indicators = this.config.sortIndicators ?? DEFAULT_SORT_INDICATORS;
+		if (!sortKey || !indicators) {
+			return label;
+		}
+		const indicator = indicators[sortKey.direction ?? "asc"];
+		return indicator ? `${label} ${indicator}` : label;
+	}
+
+	/**
+	 * A column's header when none is configured: its key, or for flattened
+	 * columns shown under their parent's header group, the rest of the path.
+	 */
+	private getDefaultHeader(colName: string): string {
+		const path = this.flattenedSource?.getColumnPath(colName) ?? [colName];
+		if (path.length > 1 && this.getFlattenConfig().headerGroups) {
+			return path.slice(1).join(".");
+		}
+		return colName;
+	}
+
+	/**
+	 * The configured header group rows, plus a row labelling flattened columns
+	 * by their parent key when `flatten.headerGroups` is on.
+	 */
+	private getHeaderGroups(columnNames: string[]): HeaderGroup[][] {
+		const headerGroups = this.config.headerGroups ?? [];
+		if (!this.flattenedSource || !this.getFlattenConfig().headerGroups) {
+			return headerGroups;
+		}
+
+		const parents = new Map<string, string[]>();
+		for (const name of columnNames) {
+			const path = this.flattenedSource.getColumnPath(name);
+			if (path.length > 1) {
+				parents.set(path[0], [...(parents.get(path[0]) ?? []), name]);
+			}
+		}
+		const flattenedGroups = [...parents].map(([label, columns]) => ({
+			label,
+			columns,
+		}));
+		return [...headerGroups, flattenedGroups];
+	}
+
+	/**
+	 * Orders the given source rows by the `groupBy` columns, keeping groups in
+	 * the order their first row appears. Returns the source row indices in
+	 * display order and every group, nested ones included, in depth-first
+	 * order.
+	 */
+	private groupRows(
+		sourceColumnNames: string[],
+		rows: number[],
+	): {
+		order: number[];
+		groups: RowGroup[];
+	} {
+		const groupBy = this.config.groupBy ?? [];
+		const groupColumns = typeof groupBy === "string" ? [groupBy] : groupBy;
+		if (groupColumns.length === 0) {
+			return { order: rows, groups: [] };
+		}
+
+		const keyIndices = groupColumns.map((column) =>
+			sourceColumnNames.indexOf(column),
+		);
+
+		const order: number[] = [];
+		const groups: RowGroup[] = [];
+		const visit = (rows: number[], depth: number) => {
+			if (depth === keyIndices.length) {
+				order.push(...rows);
+				return;
+			}
+			const buckets = new Map<string, { value: CellTypes; rows: number[] }>();
+			for (const row of rows) {
+				const value = this.source.getArrayRow(row)[keyIndices[depth]];
+				const key = JSON.stringify(value);
+				const bucket = buckets.get(key);
+				if (bucket) {
+					bucket.rows.push(row);
+				} else {
+					buckets.set(key, { value, rows: [row] });
+				}
+			}
+			for (const bucket of buckets.values()) {
+				const group: RowGroup = {
+					column: groupColumns[depth],
+					value: bucket.value,
+					depth,
+					rowCount: bucket.rows.length,
+					start: order.length,
+					end: order.length,
+				};
+				groups.push(group);
+				visit(bucket.rows, depth + 1);
+				group.end = order.length;
+			}
+		};
+		visit(rows, 0);
+		return { order, groups };
+	}
+
+	/**
+	 * Lays out the group header and subtotal rows for the displayed rows. A
+	 * group's header appears above its first displayed row, even when the
+	 * group started on an earlier page; its subtotal appears once the group's
+	 * last row has been displayed.
+	 */
+	private resolveGroupRows(
+		groups: RowGroup[],
+		startRow: number,
+		endRow: number,
+		columnNames: string[],
+		sourceIndices: number[],
+		order: number[],
+	): GroupRow[] {
+		const groupRows: GroupRow[] = [];
+		const subtotals = this.config.subtotals;
+		const groupLabel = this.config.groupLabel ?? DEFAULT_GROUP_LABEL;
+
+		const close = (group: RowGroup) => {
+			if (subtotals && group.end > startRow && group.end <= endRow) {
+				groupRows.push({
+					kind: "subtotal",
+					before: group.end - startRow,
+					cells: this.formatAggregates(
+						subtotals,
+						columnNames,
+						sourceIndices,
+						order.slice(group.start, group.end),
+					),
+				});
+			}
+		};
+
+		// Groups arrive depth-first, so a group closes when the next group is
+		// at the same depth or shallower.
+		const open: RowGroup[] = [];
+		for (const group of groups) {
+			while (open.length > 0 && open[open.length - 1].depth >= group.depth) {
+				close(open.pop() as RowGroup);
+			}
+			open.push(group);
+			if (group.start < endRow && group.end > startRow) {
+				const { column, value, depth, rowCount } = group;
+				groupRows.push({
+					kind: "header",
+					before: Math.max(group.start, startRow) - startRow,
+					label:
+						GROUP_INDENT.repeat(depth) +
+						groupLabel({ column, value, depth, rowCount }),
+				});
+			}
+		}
+		while (open.length > 0) {
+			close(open.pop() as RowGroup);
+		}
+		return groupRows;
+	}
+
+	/** Narrows table content down to the given columns, in the given order. */
+	private pickColumns(content: TableContent, indices: number[]): TableContent {
+		return {
+			columnNames: indices.map((i) => content.columnNames[i]),
+			headerLabels: indices.map((i) => content.headerLabels[i]),
+			rows: content.rows.map((row) => indices.map((i) => row[i])),
+			rowIndices: content.rowIndices,
+			stripes: content.stripes,
+			treeGuides: content.treeGuides,
+			groupRows: content.groupRows.map((row) =>
+				row.kind === "subtotal"
+					? { ...row, cells: indices.map((i) => row.cells[i]) }
+					: row,
+			),
+			summary:
+				content.summary && indices.map((i) => content.summary?.[i] ?? ""),
+			decimals: content.decimals && indices.map((i) => content.decimals?.[i]),
+		};
+	}
+
+	/**
+	 * Orders the source columns into left-pinned, scrolling and right-pinned
+	 * zones, and applies `columnOffset`/`columnLimit` to the scrolling zone.
+	 * Returns the source indices of the columns to show, in display order.
+	 */
+	private selectColumnWindow(sourceColumnNames: string[]): {
+		columnIndices: number[];
+		columnZones: ColumnZone[];
+		columnsBefore: number;
+		columnsAfter: number;
+	} {
+		const zoneOf = (name: string): ColumnZone =>
+			this.getColumnConfig(name)?.pinned ?? "scroll";
+		const indicesIn = (zone: ColumnZone) =>
+			sourceColumnNames
+				.map((_, i) => i)
+				.filter((i) => zoneOf(sourceColumnNames[i]) === zone);
+
+		const scrolling = indicesIn("scroll");
+		// Keep at least one scrolling column in view, like a scrollbar would.
+		const offset = Math.min(
+			Math.max(0, scrolling.length - 1),
+			Math.max(0, this.config.columnOffset ?? 0),
+		);
+		const limit = Math.max(1, this.config.columnLimit ?? scrolling.length);
+		const windowed = scrolling.slice(offset, offset + limit);
+
+		const columnIndices = [
+			...indicesIn("left"),
+			...windowed,
+			...indicesIn("right"),
+		];
+		return {
+			columnIndices,
+			columnZones: columnIndices.map((i) => zoneOf(sourceColumnNames[i])),
+			columnsBefore: offset,
+			columnsAfter: scrolling.length - offset - windowed.length,
+		};
+	}
+
+	/**
+	 * Renders the horizontal layout for the given columns: borders, header
+	 * rows, data rows and the footer.
+	 */
+	private renderTable(
+		content: TableContent,
+		finalWidths: number[],
+		footerInfo: FooterInfo,
+		footer = this.config.footer,
+		markers: ScrollMarkers = {},
+	): string {
+		const { columnNames, headerLabels, rows, rowIndices, summary } = content;
+		const output: string[] = [];
+		const { cellSeparator } = this.borderChars;
+		const headerWalls = this.getWalls(
+			columnNames.length,
+			getHeaderWall(this.borderChars),
+			markers,
+		);
+		const rowWalls = this.getWalls(columnNames.length, cellSeparator, markers);
+
+		// 1. Calculate each column's outer width, which is what the border lines
+		// span. This respects per-column padding overrides.
+		const outerWidths = finalWidths.map((width, i) => {
+			const colPadding = this.getColumnPadding(columnNames[i]);
+			return width + colPadding.left + colPadding.right;
+		});
+
+		// 2. Render the top border, any header group rows, the header, and the
+		// header separator.
+		const headerGroupRows = this.resolveHeaderGroups(columnNames);
+		if (headerGroupRows.length === 0) {
+			output.push(...this.renderSeparator(outerWidths, "top", "down"));
+		} else {
+			// Junctions only appear where a group boundary meets the line.
+			const noBoundaries = finalWidths.slice(1).map(() => false);
+			const allBoundaries = finalWidths.slice(1).map(() => true);
+			let above = noBoundaries;
+			headerGroupRows.forEach((spans, rowIndex) => {
+				const below = this.getSpanBoundaries(spans, finalWidths.length);
+				const isTop = rowIndex === 0;
+				output.push(
+					...this.renderSpanSeparator(
+						outerWidths,
+						above,
+						below,
+						isTop ? "top" : "header",
+					),
+				);
+				output.push(
+					this.renderHeaderGroupRow(
+						spans,
+						finalWidths,
+						columnNames,
+						headerWalls,
+					),
+				);
+				above = below;
+			});
+			output.push(
+				...this.renderSpanSeparator(
+					outerWidths,
+					above,
+					allBoundaries,
+					"header",
+				),
+			);
+		}
+		output.push(
+			this.renderHeader(headerLabels, finalWidths, columnNames, headerWalls),
+		);
+
+		// 3. Render the data rows, with any group headers and subtotals between
+		// them. Those get a rule above and below; a rule bends into a plain line
+		// where a full-width group header row has no column walls.
+		const allBoundaries = finalWidths.slice(1).map(() => true);
+		const noBoundaries = finalWidths.slice(1).map(() => false);
+		let aboveHasWalls = true;
+		let ruleBelow = true;
+		let ruleKind: RuleKind = "header"; // The first rule closes the header
+		const separator = this.getRowSeparator();
+		const pushLine = (
+			line: string,
+			hasWalls: boolean,
+			ruled: boolean,
+			separated = false, // A row separator is due above this line
+		) => {
+			if (ruleBelow || ruled || separated) {
+				output.push(
+					...this.renderSpanSeparator(
+						outerWidths,
+						aboveHasWalls ? allBoundaries : noBoundaries,
+						hasWalls ? allBoundaries : noBoundaries,
+						ruleKind,
+						!ruleBelow && !ruled && separator?.dotted,
+					),
+				);
+				ruleKind = "row";
+			}
+			output.push(line);
+			aboveHasWalls = hasWalls;
+			ruleBelow = ruled;
+		};
+		const pushGroupRow = (groupRow: GroupRow) => {
+			if (groupRow.kind === "header") {
+				pushLine(
+					this.renderGroupHeaderRow(
+						groupRow.label,
+						outerWidths,
+						columnNames,
+						headerWalls,
+					),
+					false,
+					true,
+				);
+			} else {
+				pushLine(
+					this.renderCells(
+						groupRow.cells,
+						columnNames.map(() => this.theme.subtotal),
+						finalWidths,
+						columnNames,
+						rowWalls,
+						undefined,
+						content.decimals,
+					),
+					true,
+					true,
+				);
+			}
+		};
+
+		if (rows.length === 0) {
+			const emptyRowContent = columnNames.map(() => "");
+			const emptyRowObject = columnNames.reduce(
+				(acc, name) => ({ ...acc, [name]: null }),
+				{},
+			);
+			pushLine(
+				this.renderRow(
+					emptyRowContent,
+					emptyRowObject,
+					finalWidths,
+					columnNames,
+					0,
+					rowWalls,
+				),
+				true,
+				false,
+			);
+		} else {
+			let nextGroupRow = 0;
+			let previousRow: JSONObject | undefined;
+			rows.forEach((row, i) => {
+				while (content.groupRows[nextGroupRow]?.before === i) {
+					pushGroupRow(content.groupRows[nextGroupRow++]);
+				}
+				const originalRow = this.source.getObjectRow(rowIndices[i]);
+				// The first row of a page sits right below the header rule.
+				const separated =
+					separator !== undefined &&
+					previousRow !== undefined &&
+					(separator.when
+						? separator.when(previousRow, originalRow)
+						: content.stripes[i] % (separator.every ?? 1) === 0);
+				previousRow = originalRow;
+				pushLine(
+					this.renderRow(
+						row,
+						originalRow,
+						finalWidths,
+						columnNames,
+						content.stripes[i],
+						rowWalls,
+						content.treeGuides?.[i],
+						content.decimals,
+					),
+					true,
+					false,
+					separated,
+				);
+			});
+			content.groupRows.slice(nextGroupRow).forEach(pushGroupRow);
+		}
+
+		// Render the summary row below its own rule.
+		if (summary) {
+			pushLine(
+				this.renderCells(
+					summary,
+					columnNames.map(() => this.theme.summary),
+					finalWidths,
+					columnNames,
+					rowWalls,
+					undefined,
+					content.decimals,
+				),
+				true,
+				true,
+			);
+		}
+
+		// 4. Render the footer (if configured) or the final bottom border.
+		output.push(...this.renderFooter(outerWidths, footerInfo, footer));
+
+		return output.join("\n");
+	}
+
+	/**
+	 * Renders a wide table as consecutive sections printed one under another.
+	 * Each section holds the key columns followed by as many of the remaining
+	 * columns as fit the available width at their natural size; a column too
+	 * wide to fit at all gets a section of its own and is shrunk as usual.
+	 */
+	private renderColumnSections(
+		content: TableContent,
+		idealWidths: number[],
+		availableWidth: number,
+		footerInfo: FooterInfo,
+	): string {
+		const { columnNames } = content;
+		const keyColumns = [
+			ROW_NUMBER_COLUMN,
+			...(this.config.columnPaging?.keyColumns ?? []),
+		];
+		const allIndices = columnNames.map((_, i) => i);
+		const keyIndices = allIndices.filter((i) =>
+			keyColumns.includes(columnNames[i]),
+		);
+		const pagedIndices = allIndices.filter(
+			(i) => !keyColumns.includes(columnNames[i]),
+		);
+
+		const sections: number[][] = [];
+		let current: number[] = [];
+		for (const index of pagedIndices) {
+			const candidate = [...keyIndices, ...current, index];
+			const naturalWidth = this.measureNaturalWidth(
+				candidate.map((i) => idealWidths[i]),
+				candidate.map((i) => columnNames[i]),
+			);
+			if (current.length > 0 && naturalWidth > availableWidth) {
+				sections.push(current);
+				current = [];
+			}
+			current.push(index);
+		}
+		if (current.length > 0 || sections.length === 0) {
+			sections.push(current);
+		}
+
+		// The default footer tells the sections apart, so one section needs none.
+		// Its range leaves out the key columns, so it names them.
+		const keyLabels = keyIndices
+			.filter((i) => columnNames[i] !== ROW_NUMBER_COLUMN)
+			.map((i) => content.headerLabels[i]);
+		const footer =
+			this.config.footer ??
+			(sections.length > 1
+				? (info: FooterInfo) => DEFAULT_SECTION_FOOTER(info, keyLabels)
+				: undefined);
+		const rowNumberOffset = columnNames[0] === ROW_NUMBER_COLUMN ? 1 : 0;
+		return sections
+			.map((section, sectionIndex) => {
+				const indices = [...keyIndices, ...section];
+				const sectionContent = this.pickColumns(content, indices);
+				// Key columns keep their natural width, like the row number column,
+				// so they stay readable next to a wide column.
+				const finalWidths = this.distributeWidths(
+					indices.map((i) => idealWidths[i]),
+					availableWidth,
+					sectionContent.columnNames,
+					keyColumns,
+				);
+				// The range counts the displayed columns, which the row number
+				// column, pinned first, is not one of.
+				const rangeIndices = (section.length > 0 ? section : keyIndices).filter(
+					(i) => columnNames[i] !== ROW_NUMBER_COLUMN,
+				);
+				// The title and caption describe the whole table, so they only
+				// frame the first and last section.
+				return this.addTitleAndCaption(
+					this.renderTable(
+						sectionContent,
+						finalWidths,
+						{
+							...footerInfo,
+							columnStart: rangeIndices[0] - rowNumberOffset,
+							columnEnd:
+								rangeIndices[rangeIndices.length - 1] + 1 - rowNumberOffset,
+						},
+						footer,
+					),
+					sectionIndex === 0,
+					sectionIndex === sections.length - 1,
+				);
+			})
+			.join("\n\n");
+	}
+
+	/**
+	 * The width a table of these columns takes when every column gets its
+	 * ideal width, within its `minWidth`/`maxWidth` constraints.
+	 */
+	private measureNaturalWidth(
+		idealWidths: number[],
+		columnNames: string[],
+	): number {
+		let total = this.getWallOverhead(idealWidths.length);
+		idealWidths.forEach((ideal, i) => {
+			const colConfig = this.getColumnConfig(columnNames[i]);
+			const padding = this.getColumnPadding(columnNames[i]);
+			const min = colConfig?.minWidth ?? 1;
+			const max = colConfig?.maxWidth ?? Infinity;
+			total +=
+				Math.max(min, Math.min(ideal, max)) + padding.left + padding.right;
+		});
+		return total;
+	}
+
+	/**
+	 * Renders the lines that close the table: the footer section when a footer
+	 * is configured, otherwise the bottom border with column junctions.
+	 */
+	private renderFooter(
+		outerWidths: number[],
+		footerInfo: FooterInfo,
+		footer = this.config.footer,
+	): string[] {
+		if (!footer) {
+			return [...this.renderSeparator(outerWidths, "bottom", "up")];
+		}
+
+		const output: string[] = [];
+		// Render the separator line that closes the table body.
+		// It uses upward junction characters (e.g., '╩') to meet the column lines.
+		output.push(...this.renderSeparator(outerWidths, "footer", "up"));
+
+		// Render the footer text as a single, wide cell, enclosed by vertical
+		// walls and wrapped to the inner width of the table.
+		const totalInnerWidth = this.getInnerWidth(outerWidths);
+		output.push(
+			...this.renderBarLines(
+				footer(footerInfo),
+				totalInnerWidth,
+				"left",
+				this.theme.footer,
+			),
+		);
+
+		// Render the final, solid bottom line with no column junctions.
+		output.push(...this.renderSolidRule(totalInnerWidth, "bottom"));
+		return output;
+	}
+
+	/**
+	 * Chooses which columns to show. While the distributed widths would squeeze
+	 * a column below a readable width, the lowest-priority column is hidden,
+	 * whole, and the rest are laid out again. Columns without a `priority` are
+	 * never hidden. Returns the indices of the visible columns, in order.
+	 */
+	private selectVisibleColumns(
+		idealWidths: number[],
+		availableWidth: number,
+		columnNames: string[],
+	): number[] {
+		const visible = columnNames.map((_, i) => i);
+		while (visible.length > 1) {
+			const widths = this.distributeWidths(
+				visible.map((i) => idealWidths[i]),
+				availableWidth,
+				visible.map((i) => columnNames[i]),
+			);
+			if (
+				!this.isUnreadable(
+					visible.map((i) => idealWidths[i]),
+					widths,
+				)
+			) {
+				break;
+			}
+
+			// Lowest priority goes first; on a tie, the rightmost column.
+			let dropAt = -1;
+			let lowestPriority = Infinity;
+			visible.forEach((columnIndex, position) => {
+				const priority = this.getColumnConfig(
+					columnNames[columnIndex],
+				)?.priority;
+				if (priority !== undefined && priority <= lowestPriority) {
+					lowestPriority = priority;
+					dropAt = position;
+				}
+			});
+			if (dropAt === -1) break;
+			visible.splice(dropAt, 1);
+		}
+		return visible;
+	}
+
+	/**
+	 * Whether the distributed widths squeeze any column below the readability
+	 * threshold. Columns whose content is naturally narrower are left alone.
+	 */
+	private isUnreadable(idealWidths: number[], finalWidths: number[]): boolean {
+		const threshold =
+			this.config.minReadableWidth ?? DEFAULT_MIN_READABLE_WIDTH;
+		return finalWidths.some(
+			(width, i) => width < Math.min(idealWidths[i], threshold),
+		);
+	}
+
+	/**
+	 * Renders the vertical layout: a two-column table of header labels and
+	 * values, with one block per data row separated by horizontal rules.
+	 */
+	private renderRecords(
+		content: TableContent,
+		availableWidth: number,
+		footerInfo: FooterInfo,
+	): string {
+		const { columnNames, headerLabels, rows: formattedDataWindow } = content;
+		const padding = this.config.padding ?? DEFAULT_PADDING;
+		const totalPadding = padding.left + padding.right;
+
+		// Labels get their natural width, capped at half of the available space;
+		// values take what remains, up to their own natural width.
+		const contentWidth = Math.max(
+			2,
+			availableWidth - this.getWallOverhead(2) - 2 * totalPadding,
+		);
+		const idealLabelWidth = Math.max(
+			...headerLabels.map((h) => stringWidth(h)),
+		);
+		const idealValueWidth = Math.max(
+			1,
+			...formattedDataWindow.flatMap((row) =>
+				row.flatMap((cell) =>
+					cell.split(LINE_BREAK).map((line) => stringWidth(line)),
+				),
+			),
+		);
+		const labelWidth = Math.max(
+			1,
+			Math.min(idealLabelWidth, Math.floor(contentWidth / 2)),
+		);
+		const valueWidth = Math.max(
+			1,
+			Math.min(idealValueWidth, contentWidth - labelWidth),
+		);
+		const outerWidths = [labelWidth + totalPadding, valueWidth + totalPadding];
+
+		const records =
+			formattedDataWindow.length > 0
+				? formattedDataWindow
+				: [columnNames.map(() => "")];
+
+		const { cellSeparator } = this.borderChars;
+		const vertical = this.getOuterWall();
+		const output: string[] = [
+			...this.renderSeparator(outerWidths, "top", "down"),
+		];
+		records.forEach((record, recordIndex) => {
+			if (recordIndex > 0) {
+				output.push(...this.renderSeparator(outerWidths, "row", "cross"));
+			}
+
+			const originalRow =
+				formattedDataWindow.length > 0
+					? this.source.getObjectRow(content.rowIndices[recordIndex])
+					: {};
+			const rowStyle = this.getRowStyle(
+				originalRow,
+				content.stripes[recordIndex] ?? 0,
+			);
+
+			record.forEach((cell, i) => {
+				const colName = columnNames[i];
+				const columnConfig = this.getColumnConfig(colName);
+				const labelStyle = {
+					...this.theme.header,
+					...columnConfig?.headerStyle,
+				};
+				const valueStyle = this.getCellStyle(rowStyle, colName, originalRow);
+
+				const valueLines = this.fitCellText(cell, valueWidth, colName);
+				valueLines.forEach((line, lineIndex) => {
+					const label = this.alignAndTruncateText(
+						lineIndex === 0 ? headerLabels[i] : "",
+						labelWidth,
+						"left",
+						padding,
+					);
+					const value = this.alignAndTruncateText(
+						line,
+						valueWidth,
+						"left",
+						padding,
+					);
+					const styledLabel =
+						label.trim() === "" ? label : this.applyStyle(label, labelStyle);
+					output.push(
+						`${vertical}${styledLabel}${cellSeparator}${this.applyStyle(value, valueStyle)}${vertical}`,
+					);
+				});
+			});
+		});
+		output.push(...this.renderFooter(outerWidths, footerInfo));
+
+		return output.join("\n");
+	}
+
+	/**
+	 * Frames a rendered table with the configured title and caption. A bar
+	 * placed in a row gets a box of its own that shares a rule with the table;
+	 * a bar placed in the border replaces part of the top or bottom line, or
+	 * is placed in a row after all when it would cover a column junction.
+	 */
+	private addTitleAndCaption(
+		table: string,
+		withTitle = true,
+		withCaption = true,
+	): string {
+		const title = withTitle ? this.getTitleConfig(this.config.title) : null;
+		const caption = withCaption
+			? this.getTitleConfig(this.config.caption)
+			: null;
+		if (!title && !caption) {
+			return table;
+		}
+
+		const lines = table.split("\n");
+		const { outer } = this.getWallWidths();
+		const width = stringWidth(lines[0] ?? "") - 2 * outer;
+		const output: string[] = [];
+
+		if (title) {
+			const style = { ...this.theme.title, ...title.style };
+			const alignment = title.alignment ?? "center";
+			const bar = this.renderBarLines(title.text, width, alignment, style);
+			if (!this.hasRule("top")) {
+				// Without a top border, a row is the only place for the title.
+				output.push(...bar, ...this.renderSolidRule(width, "header"));
+			} else {
+				const [left, right] = this.getRuleEnds("top");
+				const top = lines.shift() ?? "";
+				const rule = top.slice(left.length, top.length - right.length);
+				const embedded =
+					title.placement === "border"
+						? this.embedInRule(rule, "top", title.text, alignment, style)
+						: undefined;
+				if (embedded !== undefined) {
+					output.push(left + embedded + right);
+				} else {
+					// The old top border now separates the title from the header.
+					const [innerLeft, innerRight] = this.getRuleEnds("header");
+					output.push(
+						...this.renderSolidRule(width, "top"),
+						...bar,
+						innerLeft + this.translateRule(rule, "top", "header") + innerRight,
+					);
+				}
+			}
+		}
+
+		const hasBottom = caption !== null && this.hasRule("bottom");
+		const bottom = hasBottom ? (lines.pop() ?? "") : "";
+		output.push(...lines);
 
-		const columnNames = this.source.getColumnNames();
-		if (columnNames.length === 0) {
-			return this.applyStyle("(No data)", this.theme.cell);
+		if (caption) {
+			const style = { ...this.theme.caption, ...caption.style };
+			const alignment = caption.alignment ?? "left";
+			const bar = this.renderBarLines(caption.text, width, alignment, style);
+			if (!hasBottom) {
+				output.push(...this.renderSolidRule(width, "footer"), ...bar);
+			} else {
+				const [left, right] = this.getRuleEnds("bottom");
+				const rule = bottom.slice(left.length, bottom.length - right.length);
+				const embedded =
+					caption.placement === "border"
+						? this.embedInRule(rule, "bottom", caption.text, alignment, style)
+						: undefined;
+				if (embedded !== undefined) {
+					output.push(left + embedded + right);
+				} else {
+					// The old bottom border now separates the table from the caption.
+					const [innerLeft, innerRight] = this.getRuleEnds("footer");
+					output.push(
+						innerLeft +
+							this.translateRule(rule, "bottom", "footer") +
+							innerRight,
+						...bar,
+						...this.renderSolidRule(width, "bottom"),
+					);
+				}
+			}
 		}
 
-		// 2. Paginate data by getting the subset of rows to be displayed.
-		const totalRows = this.source.getRowCount();
-		const rowOffset = this.config.rowOffset ?? 0;
-		const rowLimit = this.config.rowLimit ?? totalRows;
-		const startRow = Math.max(0, rowOffset);
-		const endRow = Math.min(totalRows, startRow + rowLimit);
-
-		// 3. Format the data window by applying per-column formatters.
-		const formattedDataWindow: string[][] = [];
-		for (let i = startRow; i < endRow; i++) {
-			const row = this.source.getArrayRow(i);
-			formattedDataWindow.push(
-				row.map((cell, colIdx) => {
-					const colName = columnNames[colIdx];
-					const formatter = this.config.columns?.[colName]?.formatter;
-					if (formatter) {
-						return formatter(cell, i);
-					}
-					if (typeof cell === "object" && cell !== null) {
-						return JSON.stringify(cell);
-					}
-					return String(cell ?? "");
-				}),
-			);
-		}
+		return output.join("\n");
+	}
 
-		const headerLabels = columnNames.map(
-			(name) => this.config.columns?.[name]?.header ?? name,
-		);
+	/** The characters that start and end a rule, fitted to the outer walls. */
+	private getRuleEnds(kind: RuleKind): [string, string] {
+		const { left, right, horizontal } = this.rules[kind];
+		const { outer } = this.getWallWidths();
+		return [
+			this.fitBorderChar(left, outer, horizontal),
+			this.fitBorderChar(right, outer, horizontal),
+		];
+	}
 
-		// 4. Calculate final column widths based on content and available space.
-		const idealWidths = this.calculateColumnWidths(
-			headerLabels,
-			formattedDataWindow,
+	/** Redraws the inside of a rendered rule with the characters of another rule. */
+	private translateRule(rule: string, from: RuleKind, to: RuleKind): string {
+		const keys = ["horizontal", "cross", "down", "up"] as const;
+		const replacements = new Map(
+			keys.map((key) => [this.rules[from][key], this.rules[to][key]]),
 		);
-		const finalWidths = this.distributeWidths(idealWidths, availableWidth);
+		return Array.from(rule)
+			.map((char) => replacements.get(char) ?? char)
+			.join("");
+	}
 
-		const output: string[] = [];
+	/** Normalizes the shorthand string form of a title or caption. */
+	private getTitleConfig(
+		bar: string | TitleConfig | undefined,
+	): TitleConfig | null {
+		if (bar === undefined) return null;
+		return typeof bar === "string" ? { text: bar } : bar;
+	}
 
-		// 5. Calculate the total inner width, which is essential for the footer.
-		// This respects per-column padding overrides.
-		const totalContentWidth = finalWidths.reduce((a, b) => a + b, 0);
-		let totalPadding = 0;
-		for (let i = 0; i < finalWidths.length; i++) {
-			const colName = columnNames[i];
-			const colPadding =
-				this.config.columns?.[colName]?.padding ??
-				this.config.padding ??
-				DEFAULT_PADDING;
-			totalPadding += colPadding.left + colPadding.right;
-		}
-		const innerBorderWidth =
-			finalWidths.length > 1 ? finalWidths.length - 1 : 0;
-		const totalInnerWidth = totalContentWidth + totalPadding + innerBorderWidth;
+	/**
+	 * Renders the text of a title, caption or footer row between the outer walls,
+	 * word-wrapped to the table's inner width.
+	 */
+	private renderBarLines(
+		text: string,
+		width: number,
+		alignment: "left" | "right" | "center",
+		style: Style,
+	): string[] {
+		const vertical = this.getOuterWall();
+		return carryStyles(
+			text.split(LINE_BREAK).flatMap((line) => this.wordWrap(line, width - 2)),
+		).map((line) => {
+			const padded = this.alignAndTruncateText(line, width - 2, alignment, {
+				left: 1,
+				right: 1,
+			});
+			return vertical + this.applyStyle(padded, style) + vertical;
+		});
+	}
 
-		// 6. Render the top border, header, and header separator.
-		output.push(
-			this.renderSeparator(
-				finalWidths,
-				"topLeft",
-				"topSeparator",
-				"topRight",
-				"horizontal",
-			),
+	/**
+	 * Writes text over a horizontal border line, keeping at least one line
+	 * character on each side, e.g. `─ Users ──────`. The text is truncated
+	 * when the line is too short, and left out when not even one character
+	 * fits. Returns undefined when the text would cover a column junction.
+	 */
+	private embedInRule(
+		rule: string,
+		kind: RuleKind,
+		text: string,
+		alignment: "left" | "right" | "center",
+		style: Style,
+	): string | undefined {
+		const chars = Array.from(rule);
+		const textWidth = Math.min(stringWidth(text), chars.length - 4);
+		if (textWidth < 1) {
+			return rule;
+		}
+		const label = this.alignAndTruncateText(text, textWidth, "left", {
+			left: 1,
+			right: 1,
+		});
+		const labelWidth = textWidth + 2;
+		const start =
+			alignment === "left"
+				? 1
+				: alignment === "right"
+					? chars.length - 1 - labelWidth
+					: Math.floor((chars.length - labelWidth) / 2);
+		const { horizontal } = this.rules[kind];
+		if (
+			chars.slice(start, start + labelWidth).some((char) => char !== horizontal)
+		) {
+			return undefined;
+		}
+		return (
+			chars.slice(0, start).join("") +
+			this.applyStyle(label, style) +
+			chars.slice(start + labelWidth).join("")
 		);
-		output.push(this.renderHeader(headerLabels, finalWidths));
-		output.push(
-			this.renderSeparator(
-				finalWidths,
-				"headerLeft",
-				"middleSeparator",
-				"headerRight",
-				"horizontal",
-			),
+	}
+
+	/** The overflow mode of a column, falling back to the table's. */
+	private getOverflow(colName: string): Overflow {
+		return (
+			this.getColumnConfig(colName)?.overflow ??
+			this.config.overflow ??
+			DEFAULT_OVERFLOW
 		);
+	}
 
-		// 7. Render the data rows.
-		if (formattedDataWindow.length === 0) {
-			const emptyRowContent = columnNames.map(() => "");
-			const emptyRowObject = columnNames.reduce(
-				(acc, name) => ({ ...acc, [name]: null }),
-				{},
-			);
-			output.push(
-				this.renderRow(emptyRowContent, emptyRowObject, finalWidths, 0),
-			);
-		} else {
-			formattedDataWindow.forEach((row, i) => {
-				const originalRow = this.source.getObjectRow(startRow + i);
-				output.push(
-					this.renderRow(row, originalRow, finalWidths, startRow + i),
+	/**
+	 * Measures how narrow each wrapping column can get before wrapping stops
+	 * helping: its longest word in wrap mode, or the readable width in
+	 * char-wrap mode. Other columns get no entry.
+	 */
+	private measureWrapWidths(
+		columnNames: string[],
+		headerLabels: string[],
+		cellRows: string[][],
+	): Map<string, number> {
+		const widths = new Map<string, number>();
+		columnNames.forEach((colName, i) => {
+			const overflow = this.getOverflow(colName);
+			if (overflow === "char-wrap") {
+				widths.set(
+					colName,
+					this.config.minReadableWidth ?? DEFAULT_MIN_READABLE_WIDTH,
 				);
-			});
-		}
-
-		// 8. Render the footer (if configured) or the final bottom border.
-		// This block contains the specific logic to match your desired output.
-		if (this.config.footer) {
-			// Render the separator line that closes the table body.
-			// It uses bottom junction characters (e.g., '╩') to meet the column lines.
-			output.push(
-				this.renderSeparator(
-					finalWidths,
-					"headerLeft", // e.g., '╠'
-					"bottomSeparator", // e.g., '╩'
-					"headerRight", // e.g., '╣'
-					"horizontal",
-				),
-			);
+			} else if (overflow === "wrap") {
+				const words = [headerLabels[i], ...cellRows.map((row) => row[i])]
+					.join(" ")
+					.split(/\s+/);
+				widths.set(
+					colName,
+					Math.max(...words.map((word) => stringWidth(word))),
+				);
+			}
+		});
+		return widths;
+	}
 
-			// Prepare the footer text as a single, wide cell.
-			const footerInfo: FooterInfo = {
-				totalRows,
-				displayedRows: endRow - startRow,
-				isTruncated: totalRows > rowLimit,
-				startRow,
-				endRow,
-			};
-			const footerText = this.config.footer(footerInfo);
-			const { vertical, bottomLeft, bottomRight, horizontal } =
-				this.borderChars;
-
-			// Pad the content to span the entire calculated inner width of the table.
-			const content = ` ${footerText}`;
-			const paddedFooter = this.applyStyle(
-				content.padEnd(totalInnerWidth, " "),
-				this.theme.footer,
-			);
+	/**
+	 * Measures each decimal-aligned column over every line of the given cells;
+	 * other columns get no layout.
+	 */
+	private measureDecimals(
+		columnNames: string[],
+		cellRows: string[][],
+	): (DecimalLayout | undefined)[] {
+		return columnNames.map((colName, i) => {
+			if (this.getColumnConfig(colName)?.alignment !== "decimal") {
+				return undefined;
+			}
+			const layout: DecimalLayout = { integerWidth: 0, fractionWidth: 0 };
+			for (const cells of cellRows) {
+				for (const line of (cells[i] ?? "").split(LINE_BREAK)) {
+					if (line === "") continue;
+					const { integerWidth, fractionWidth } = this.splitDecimal(line);
+					layout.integerWidth = Math.max(layout.integerWidth, integerWidth);
+					layout.fractionWidth = Math.max(layout.fractionWidth, fractionWidth);
+				}
+			}
+			return layout;
+		});
+	}
 
-			// Render the footer text row, enclosed by vertical walls.
-			output.push(`${vertical}${paddedFooter}${vertical}`);
+	/**
+	 * Measures a value either side of its decimal point. Raw numbers always
+	 * stringify with a period; values without a point, such as integers, get
+	 * an implied one after their last digit.
+	 */
+	private splitDecimal(text: string): DecimalLayout {
+		const visible = text.replace(ANSI_ESCAPE, "");
+		let point = findDecimalPoint(visible, this.getLocaleSymbols().decimal);
+		if (point < 0 && toNumber(visible) !== undefined) {
+			point = findDecimalPoint(visible, ".");
+		}
+		if (point < 0) {
+			const lastDigit = visible.search(/\d\D*$/);
+			point = lastDigit < 0 ? visible.length : lastDigit + 1;
+		}
+		return {
+			integerWidth: stringWidth(visible.slice(0, point)),
+			fractionWidth: stringWidth(visible.slice(point)),
+		};
+	}
 
-			// Render the final, solid bottom line with no column junctions.
-			const solidLine = horizontal.repeat(totalInnerWidth);
-			output.push(`${bottomLeft}${solidLine}${bottomRight}`);
-		} else {
-			// If no footer, render the standard closing border with column junctions.
-			output.push(
-				this.renderSeparator(
-					finalWidths,
-					"bottomLeft",
-					"bottomSeparator",
-					"bottomRight",
-					"horizontal",
-				),
-			);
+	/**
+	 * Pads a value so its decimal point lines up with the rest of its column.
+	 * When the column is too narrow for the lined-up values, the value is left
+	 * to plain right alignment, which truncates it to the column width.
+	 */
+	private alignDecimal(
+		text: string,
+		layout: DecimalLayout | undefined,
+		width: number,
+	): string {
+		if (
+			!layout ||
+			text === "" ||
+			layout.integerWidth + layout.fractionWidth > width
+		) {
+			return text;
 		}
+		const { integerWidth, fractionWidth } = this.splitDecimal(text);
+		return (
+			" ".repeat(layout.integerWidth - integerWidth) +
+			text +
+			" ".repeat(layout.fractionWidth - fractionWidth)
+		);
+	}
 
-		return output.join("\n");
+	/** The number symbols of the table's locale, looked up once. */
+	private getLocaleSymbols(): NumberSymbols {
+		this.numberSymbols ??= getNumberSymbols(this.config.locale);
+		return this.numberSymbols;
 	}
 
 	private calculateColumnWidths(
@@ -349,7 +2211,10 @@ export class TableFormatter {
 		const widths = headers.map((h) => stringWidth(h));
 		for (const row of dataWindow) {
 			for (let i = 0; i < row.length; i++) {
-				const cellWidth = stringWidth(row[i]);
+				// A cell with embedded newlines is as wide as its longest line.
+				const cellWidth = Math.max(
+					...row[i].split(LINE_BREAK).map((line) => stringWidth(line)),
+				);
 				if (cellWidth > (widths[i] ?? 0)) {
 					widths[i] = cellWidth;
 				}
@@ -361,18 +2226,15 @@ export class TableFormatter {
 	private distributeWidths(
 		idealWidths: number[],
 		availableWidth: number,
+		columnNames: string[],
+		fixedColumns: string[] = [], // Never shrunk below their constrained width
 	): number[] {
-		const columnNames = this.source.getColumnNames();
 		const finalWidths = [...idealWidths];
 
-		const borderOverhead = finalWidths.length + 1;
+		const borderOverhead = this.getWallOverhead(finalWidths.length);
 		let totalPadding = 0;
 		for (let i = 0; i < idealWidths.length; i++) {
-			const colName = columnNames[i];
-			const padding =
-				this.config.columns?.[colName]?.padding ??
-				this.config.padding ??
-				DEFAULT_PADDING;
+			const padding = this.getColumnPadding(columnNames[i]);
 			totalPadding += padding.left + padding.right;
 		}
 
@@ -385,7 +2247,7 @@ export class TableFormatter {
 
 		for (let i = 0; i < finalWidths.length; i++) {
 			const colName = columnNames[i];
-			const colConfig = this.config.columns?.[colName];
+			const colConfig = this.getColumnConfig(colName);
 
 			const min = colConfig?.minWidth ?? 1;
 			const max = colConfig?.maxWidth ?? Infinity;
@@ -407,7 +2269,7 @@ export class TableFormatter {
 		while (remainingSpace > 0 && flexColumns.length > 0) {
 			// Find columns that can still grow (haven't hit their maxWidth).
 			const growableColumns = flexColumns.filter((i) => {
-				const max = this.config.columns?.[columnNames[i]]?.maxWidth ?? Infinity;
+				const max = this.getColumnConfig(columnNames[i])?.maxWidth ?? Infinity;
 				return finalWidths[i] < max;
 			});
 
@@ -415,7 +2277,7 @@ export class TableFormatter {
 
 			// Calculate the total flex factor of only the columns that can still grow.
 			const totalGrowableFlex = growableColumns.reduce((sum, i) => {
-				return sum + (this.config.columns?.[columnNames[i]]?.flexGrow ?? 0);
+				return sum + (this.getColumnConfig(columnNames[i])?.flexGrow ?? 0);
 			}, 0);
 
 			if (totalGrowableFlex === 0) break; // No flex factor left.
@@ -424,7 +2286,7 @@ export class TableFormatter {
 			const spaceToDistribute = remainingSpace;
 
 			for (const i of growableColumns) {
-				const colConfig = this.config.columns?.[columnNames[i]];
+				const colConfig = this.getColumnConfig(columnNames[i]);
 				const flexGrow = colConfig?.flexGrow ?? 0;
 				const max = colConfig?.maxWidth ?? Infinity;
 
@@ -451,17 +2313,22 @@ export class TableFormatter {
 
 		// --- End of Corrected Growth Phase ---
 
-		// 3. Shrink Phase: If we're still over budget, shrink columns.
+		// 3. Shrink Phase: If we're still over budget, shrink columns. Wrapping
+		// columns give up width first, down to their longest word, since their
+		// content only takes more lines; then the other columns; and only then
+		// are words broken.
 		let excessWidth = totalConstrainedWidth - contentWidth;
-		if (excessWidth > 0) {
+		const shrink = (floorOf: (colName: string, minWidth: number) => number) => {
 			const shrinkable = finalWidths
 				.map((width, index) => {
 					const colName = columnNames[index];
-					const minWidth = this.config.columns?.[colName]?.minWidth ?? 1;
+					const minWidth = this.getColumnConfig(colName)?.minWidth ?? 1;
 					return {
 						index,
 						width,
-						canShrinkBy: width - minWidth,
+						canShrinkBy: fixedColumns.includes(colName)
+							? 0
+							: width - Math.max(minWidth, floorOf(colName, minWidth)),
 					};
 				})
 				.filter((c) => c.canShrinkBy > 0)
@@ -480,22 +2347,33 @@ export class TableFormatter {
 				}
 				if (!shrunkInCycle) break;
 			}
-		}
+		};
+		shrink((colName) => this.wrapWidths.get(colName) ?? Infinity);
+		shrink((colName, minWidth) =>
+			this.wrapWidths.has(colName) ? Infinity : minWidth,
+		);
+		shrink((_, minWidth) => minWidth);
 
 		return finalWidths;
 	}
 
-	private renderHeader(headers: string[], widths: number[]): string {
-		const columnNames = this.source.getColumnNames();
+	private renderHeader(
+		headers: string[],
+		widths: number[],
+		columnNames: string[],
+		walls: string[],
+	): string {
 		const cells = headers.map((header, i) => {
 			const colName = columnNames[i];
-			const columnConfig = this.config.columns?.[colName];
+			const columnConfig = this.getColumnConfig(colName);
 			const style = { ...this.theme.header, ...columnConfig?.headerStyle };
 			const alignedHeader = this.alignAndTruncateText(
 				header,
 				widths[i],
-				columnConfig?.alignment ?? "left",
-				i,
+				columnConfig?.alignment === "decimal"
+					? "right"
+					: (columnConfig?.alignment ?? "left"),
+				this.getColumnPadding(colName),
 			);
 
 			// Only apply style if the header isn't empty, to prevent styling the padding.
@@ -505,20 +2383,184 @@ export class TableFormatter {
 
 			return this.applyStyle(alignedHeader, style);
 		});
-		const { vertical } = this.borderChars;
-		return `${vertical}${cells.join(vertical)}${vertical}`;
+		return this.joinCells(cells, walls);
 	}
 
-	private renderRow(
-		rowCells: string[],
-		originalRow: JSONObject,
+	/**
+	 * Builds the walls of a content line: the outer walls plus `inner` between
+	 * columns, with scroll markers where columns are scrolled out of view.
+	 */
+	private getWalls(
+		columnCount: number,
+		inner: string,
+		markers: ScrollMarkers,
+	): string[] {
+		const { scrollLeft = "◀", scrollRight = "▶" } = this.borderChars;
+		const widths = this.getWallWidths();
+		const innerWall = this.fitBorderChar(inner, widths.inner, " ");
+		const outerWall = this.getOuterWall();
+		const walls = [
+			outerWall,
+			...new Array<string>(Math.max(0, columnCount - 1)).fill(innerWall),
+			outerWall,
+		];
+		const wallWidth = (i: number) =>
+			i === 0 || i === columnCount ? widths.outer : widths.inner;
+		if (markers.before !== undefined) {
+			walls[markers.before] = this.fitBorderChar(
+				scrollLeft,
+				wallWidth(markers.before),
+				" ",
+			);
+		}
+		if (markers.after !== undefined) {
+			walls[markers.after] = this.fitBorderChar(
+				scrollRight,
+				wallWidth(markers.after),
+				" ",
+			);
+		}
+		return walls;
+	}
+
+	/** Joins rendered cells into a line: `walls[i]` precedes cell `i`, the last wall closes it. */
+	private joinCells(cells: string[], walls: string[]): string {
+		return (
+			cells.map((cell, i) => walls[i] + cell).join("") + walls[walls.length - 1]
+		);
+	}
+
+	/**
+	 * Maps each configured header group row onto column index ranges. Columns
+	 * not covered by any group get an empty single-column span so that every
+	 * row of spans covers the full table width.
+	 */
+	private resolveHeaderGroups(columnNames: string[]): HeaderSpan[][] {
+		return this.getHeaderGroups(columnNames).map((groups) => {
+			const placed: HeaderSpan[] = [];
+			for (const group of groups) {
+				const indices = group.columns
+					.map((name) => columnNames.indexOf(name))
+					.filter((index) => index >= 0);
+				if (indices.length === 0) continue;
+				const start = Math.min(...indices);
+				const end = Math.max(...indices);
+				if (end - start + 1 !== new Set(indices).size) {
+					throw new Error(
+						`Header group "${group.label}" spans columns that are not adjacent`,
+					);
+				}
+				placed.push({ label: group.label, start, end, style: group.style });
+			}
+			placed.sort((a, b) => a.start - b.start);
+
+			const spans: HeaderSpan[] = [];
+			let nextColumn = 0;
+			for (const span of placed) {
+				if (span.start < nextColumn) {
+					throw new Error(
+						`Header group "${span.label}" overlaps another group in the same row`,
+					);
+				}
+				for (; nextColumn < span.start; nextColumn++) {
+					spans.push({ label: "", start: nextColumn, end: nextColumn });
+				}
+				spans.push(span);
+				nextColumn = span.end + 1;
+			}
+			for (; nextColumn < columnNames.length; nextColumn++) {
+				spans.push({ label: "", start: nextColumn, end: nextColumn });
+			}
+			return spans;
+		});
+	}
+
+	/** Flags, for each inner column boundary, whether a span edge lies on it. */
+	private getSpanBoundaries(
+		spans: HeaderSpan[],
+		columnCount: number,
+	): boolean[] {
+		const boundaries = new Array<boolean>(columnCount - 1).fill(false);
+		for (const span of spans) {
+			if (span.end < columnCount - 1) {
+				boundaries[span.end] = true;
+			}
+		}
+		return boundaries;
+	}
+
+	private renderHeaderGroupRow(
+		spans: HeaderSpan[],
 		widths: number[],
-		rowIndex: number,
+		columnNames: string[],
+		walls: string[],
 	): string {
-		const columnNames = this.source.getColumnNames();
+		const innerWallWidth = this.getWallWidths().inner;
+		const cells = spans.map((span) => {
+			// A span absorbs the padding and separators of the columns it covers,
+			// keeping only the outer padding of its first and last column.
+			const startPadding = this.getColumnPadding(columnNames[span.start]);
+			const endPadding = this.getColumnPadding(columnNames[span.end]);
+			let spanWidth = (span.end - span.start) * innerWallWidth;
+			for (let i = span.start; i <= span.end; i++) {
+				const padding = this.getColumnPadding(columnNames[i]);
+				spanWidth += widths[i] + padding.left + padding.right;
+			}
+			const contentWidth = spanWidth - startPadding.left - endPadding.right;
+			const alignedLabel = this.alignAndTruncateText(
+				span.label,
+				contentWidth,
+				"center",
+				{ left: startPadding.left, right: endPadding.right },
+			);
+
+			if (alignedLabel.trim() === "") {
+				return alignedLabel;
+			}
+			return this.applyStyle(alignedLabel, {
+				...this.theme.headerGroup,
+				...span.style,
+			});
+		});
+		// Each span is preceded by the wall at its first column.
+		const line = cells.map((cell, k) => walls[spans[k].start] + cell).join("");
+		return line + walls[walls.length - 1];
+	}
 
-		// --- Style Precedence Logic ---
+	/**
+	 * Renders a group header as a single cell spanning the whole table, keeping
+	 * only the outer padding of the first and last column.
+	 */
+	private renderGroupHeaderRow(
+		label: string,
+		outerWidths: number[],
+		columnNames: string[],
+		walls: string[],
+	): string {
+		const leftPadding = this.getColumnPadding(columnNames[0]).left;
+		const rightPadding = this.getColumnPadding(
+			columnNames[columnNames.length - 1],
+		).right;
+		const spanWidth = this.getInnerWidth(outerWidths);
+		const alignedLabel = this.alignAndTruncateText(
+			label,
+			spanWidth - leftPadding - rightPadding,
+			"left",
+			{ left: leftPadding, right: rightPadding },
+		);
+		return (
+			walls[0] +
+			this.applyStyle(alignedLabel, this.theme.group) +
+			walls[walls.length - 1]
+		);
+	}
 
+	/**
+	 * Resolves the style shared by every cell of a row. The precedence is
+	 * `cellStyle` > `column.style` > `rowStyle` > `theme`; this covers the
+	 * row-level part, and `getCellStyle` layers the column-level part on top.
+	 */
+	private getRowStyle(originalRow: JSONObject, rowIndex: number): Style {
 		// 1. Determine the base style for the entire row (cell or alternating)
 		const isAlternating = this.config.alternatingRows && rowIndex % 2 !== 0;
 		const baseRowStyle = isAlternating
@@ -529,49 +2571,242 @@ export class TableFormatter {
 		const conditionalRowStyle = this.config.rowStyle?.(originalRow) ?? {};
 
 		// 3. Merge them: conditionalRowStyle properties override baseRowStyle
-		const mergedRowStyle = { ...baseRowStyle, ...conditionalRowStyle };
+		return { ...baseRowStyle, ...conditionalRowStyle };
+	}
+
+	private getCellStyle(
+		rowStyle: Style,
+		colName: string,
+		originalRow: JSONObject,
+	): Style {
+		const columnConfig = this.getColumnConfig(colName);
+
+		// 4. Start with the calculated style for the row
+		let finalStyle = rowStyle;
+
+		// 5. Apply static column style
+		const staticColumnStyle = columnConfig?.style ?? {};
+		finalStyle = { ...finalStyle, ...staticColumnStyle };
+
+		// 6. Apply the placeholder style to nulls shown by `autoFormat`
+		const value = originalRow[colName] ?? null;
+		if (
+			value === null &&
+			this.config.autoFormat &&
+			colName !== ROW_NUMBER_COLUMN &&
+			!columnConfig?.formatter
+		) {
+			finalStyle = { ...finalStyle, ...this.theme.placeholder };
+		}
 
-		const cells = rowCells.map((cell, i) => {
+		// 7. Apply conditional cell style (most specific)
+		const conditionalCellStyle =
+			columnConfig?.cellStyle?.(value, originalRow) ?? {};
+		return { ...finalStyle, ...conditionalCellStyle };
+	}
+
+	private renderRow(
+		rowCells: string[],
+		originalRow: JSONObject,
+		widths: number[],
+		columnNames: string[],
+		rowIndex: number,
+		walls: string[],
+		treeGuide?: TreeGuide,
+		decimals?: (DecimalLayout | undefined)[],
+	): string {
+		const rowStyle = this.getRowStyle(originalRow, rowIndex);
+		const styles = columnNames.map((colName) =>
+			this.getCellStyle(rowStyle, colName, originalRow),
+		);
+		return this.renderCells(
+			rowCells,
+			styles,
+			widths,
+			columnNames,
+			walls,
+			treeGuide,
+			decimals,
+		);
+	}
+
+	/**
+	 * Lays out one logical row of styled cells, which may span several
+	 * physical lines, between the given walls.
+	 */
+	private renderCells(
+		rowCells: string[],
+		styles: Style[],
+		widths: number[],
+		columnNames: string[],
+		walls: string[],
+		treeGuide?: TreeGuide,
+		decimals?: (DecimalLayout | undefined)[],
+	): string {
+		const cellLines = rowCells.map((cell, i) => {
 			const colName = columnNames[i];
-			const columnConfig = this.config.columns?.[colName];
-			const originalValue = originalRow[colName];
+			const columnConfig = this.getColumnConfig(colName);
+			const alignment = columnConfig?.alignment ?? "left";
+			const verticalAlignment = columnConfig?.verticalAlignment ?? "top";
+			const lines =
+				treeGuide && colName === this.config.tree?.column
+					? this.fitTreeCellText(cell, widths[i], colName, treeGuide)
+					: this.fitCellText(cell, widths[i], colName);
+			return { lines, alignment, verticalAlignment, style: styles[i] };
+		});
+
+		// The row is as tall as its tallest cell; shorter cells are filled with
+		// blank lines so the column walls stay continuous.
+		const rowHeight = Math.max(...cellLines.map((c) => c.lines.length));
+		const topOffsets = cellLines.map(({ lines, verticalAlignment }) => {
+			const spare = rowHeight - lines.length;
+			switch (verticalAlignment) {
+				case "middle":
+					return Math.floor(spare / 2);
+				case "bottom":
+					return spare;
+				default:
+					return 0;
+			}
+		});
+		const physicalLines: string[] = [];
+		for (let line = 0; line < rowHeight; line++) {
+			const cells = cellLines.map(({ lines, alignment, style }, i) => {
+				const text = lines[line - topOffsets[i]] ?? "";
+				const alignedCell = this.alignAndTruncateText(
+					alignment === "decimal"
+						? this.alignDecimal(text, decimals?.[i], widths[i])
+						: text,
+					widths[i],
+					alignment === "decimal" ? "right" : alignment,
+					this.getColumnPadding(columnNames[i]),
+				);
+				return this.applyStyle(alignedCell, style);
+			});
+			physicalLines.push(this.joinCells(cells, walls));
+		}
+		return physicalLines.join("\n");
+	}
+
+	/**
+	 * Fits a tree column cell, whose text starts with its guide prefix. The
+	 * rest of the text is wrapped on its own so the guides stay intact, and
+	 * wrapped lines continue under the guides.
+	 */
+	private fitTreeCellText(
+		text: string,
+		width: number,
+		colName: string,
+		treeGuide: TreeGuide,
+	): string[] {
+		const guideWidth = stringWidth(treeGuide.prefix);
+		if (guideWidth === 0 || width <= guideWidth) {
+			return this.fitCellText(text, width, colName);
+		}
+		const label = text.slice(treeGuide.prefix.length);
+		return this.fitCellText(label, width - guideWidth, colName).map(
+			(line, i) => (i === 0 ? treeGuide.prefix : treeGuide.continuation) + line,
+		);
+	}
+
+	/**
+	 * Splits a cell's text into the physical lines it occupies, honoring
+	 * embedded newlines and the column's overflow mode. Lines produced by the
+	 * wrap modes always fit the width; in truncate mode each line is left for
+	 * `alignAndTruncateText` to shorten.
+	 */
+	private fitCellText(text: string, width: number, colName: string): string[] {
+		const lines = text.split(LINE_BREAK);
+		switch (this.getOverflow(colName)) {
+			case "wrap":
+				return carryStyles(lines.flatMap((line) => this.wordWrap(line, width)));
+			case "char-wrap":
+				return carryStyles(lines.flatMap((line) => this.charWrap(line, width)));
+			default:
+				return lines;
+		}
+	}
 
-			// 4. Start with the calculated style for the row
-			let finalStyle = mergedRowStyle;
+	/**
+	 * Breaks a single line at whitespace so that every piece fits `width`.
+	 * Words longer than the width are broken at character boundaries.
+	 */
+	private wordWrap(text: string, width: number): string[] {
+		if (width < 1 || stringWidth(text) <= width) {
+			return [text];
+		}
 
-			// 5. Apply static column style
-			const staticColumnStyle = columnConfig?.style ?? {};
-			finalStyle = { ...finalStyle, ...staticColumnStyle };
+		const lines: string[] = [];
+		let current = "";
+		for (const token of text.split(/(\s+)/)) {
+			if (token === "") continue;
 
-			// 6. Apply conditional cell style (most specific)
-			const conditionalCellStyle =
-				columnConfig?.cellStyle?.(originalValue) ?? {};
-			finalStyle = { ...finalStyle, ...conditionalCellStyle };
+			if (/^\s+$/.test(token)) {
+				// Whitespace is dropped at line starts and at break points.
+				if (current === "") continue;
+				if (stringWidth(current + token) <= width) {
+					current += token;
+				} else {
+					lines.push(current);
+					current = "";
+				}
+				continue;
+			}
 
-			const alignedCell = this.alignAndTruncateText(
-				cell,
-				widths[i],
-				columnConfig?.alignment ?? "left",
-				i,
-			);
-			return this.applyStyle(alignedCell, finalStyle);
+			if (stringWidth(current + token) <= width) {
+				current += token;
+				continue;
+			}
+			if (current !== "") {
+				lines.push(current.trimEnd());
+				current = "";
+			}
+			if (stringWidth(token) <= width) {
+				current = token;
+			} else {
+				const pieces = this.charWrap(token, width);
+				lines.push(...pieces.slice(0, -1));
+				current = pieces[pieces.length - 1];
+			}
+		}
+		if (current !== "" || lines.length === 0) {
+			lines.push(current.trimEnd());
+		}
+		return lines;
+	}
+
+	/** Breaks a single line at character boundaries so that every piece fits `width`. */
+	private charWrap(text: string, width: number): string[] {
+		if (width < 1 || stringWidth(text) <= width) {
+			return [text];
+		}
+
+		// Escape codes take no space and are never split.
+		const lines: string[] = [];
+		let current = "";
+		text.split(ANSI_TOKEN).forEach((part, i) => {
+			if (i % 2 === 1) {
+				current += part;
+				return;
+			}
+			for (const char of part) {
+				if (stringWidth(current) > 0 && stringWidth(current + char) > width) {
+					lines.push(current);
+					current = "";
+				}
+				current += char;
+			}
 		});
-		const { vertical, cellSeparator } = this.borderChars;
-		return `${vertical}${cells.join(cellSeparator)}${vertical}`;
+		lines.push(current);
+		return lines;
 	}
 
 	private alignAndTruncateText(
 		text: string,
 		width: number,
 		alignment: "left" | "right" | "center",
-		columnIndex: number,
+		padding: { left: number; right: number },
 	): string {
-		const columnNames = this.source.getColumnNames();
-		const colName = columnNames[columnIndex];
-		const padding =
-			this.config.columns?.[colName]?.padding ??
-			this.config.padding ??
-			DEFAULT_PADDING;
 		const truncationChar =
 			this.config.truncationChar ?? DEFAULT_TRUNCATION_CHAR;
 		const truncationWidth = stringWidth(truncationChar);
@@ -625,28 +2860,129 @@ export class TableFormatter {
 		}
 	}
 
+	/** Renders a rule with the same junction at every column wall; empty when it isn't drawn. */
 	private renderSeparator(
-		widths: number[],
-		leftKey: keyof BorderChars,
-		middleKey: keyof BorderChars,
-		rightKey: keyof BorderChars,
-		lineKey: keyof BorderChars,
-	): string {
-		const columnNames = this.source.getColumnNames();
-		const line = this.borderChars[lineKey];
+		outerWidths: number[],
+		kind: RuleKind,
+		junction: "cross" | "down" | "up",
+	): string[] {
+		if (!this.hasRule(kind)) {
+			return [];
+		}
+		const rule = this.rules[kind];
+		const { inner } = this.getWallWidths();
+		const parts = outerWidths.map((w) => rule.horizontal.repeat(w));
+		const [left, right] = this.getRuleEnds(kind);
+		const middle = this.fitBorderChar(rule[junction], inner, rule.horizontal);
+		return [`${left}${parts.join(middle)}${right}`];
+	}
 
-		const parts = widths.map((w, i) => {
-			const colName = columnNames[i];
-			const padding =
-				this.config.columns?.[colName]?.padding ??
-				this.config.padding ??
-				DEFAULT_PADDING;
-			const totalPadding = padding.left + padding.right;
-			return line.repeat(w + totalPadding);
+	/** Renders a rule without column junctions; empty when it isn't drawn. */
+	private renderSolidRule(innerWidth: number, kind: RuleKind): string[] {
+		if (!this.hasRule(kind)) {
+			return [];
+		}
+		const [left, right] = this.getRuleEnds(kind);
+		return [left + this.rules[kind].horizontal.repeat(innerWidth) + right];
+	}
+
+	/**
+	 * Whether a rule is drawn. Nothing is drawn without a line character, and
+	 * the top and bottom borders need a corner as well, which lets presets
+	 * such as compact and markdown go without an outer frame.
+	 */
+	private hasRule(kind: RuleKind): boolean {
+		const { horizontal, left, right } = this.rules[kind];
+		if (horizontal === "") return false;
+		if (kind === "top" || kind === "bottom") return left !== "" || right !== "";
+		return true;
+	}
+
+	/**
+	 * The widths of the outer walls and of the walls between columns. Empty
+	 * outer walls are one space wide while columns are scrolled out of view,
+	 * so the scroll markers always have room.
+	 */
+	private getWallWidths(): { outer: number; inner: number } {
+		const outer = stringWidth(this.borderChars.vertical);
+		return {
+			outer: outer === 0 && this.scrollGutter ? 1 : outer,
+			inner: stringWidth(this.borderChars.cellSeparator),
+		};
+	}
+
+	/** The outer wall of a content line, fitted to its width. */
+	private getOuterWall(): string {
+		return this.fitBorderChar(
+			this.borderChars.vertical,
+			this.getWallWidths().outer,
+			" ",
+		);
+	}
+
+	/** The width taken by the walls of a line with this many columns. */
+	private getWallOverhead(columnCount: number): number {
+		const { outer, inner } = this.getWallWidths();
+		return 2 * outer + Math.max(0, columnCount - 1) * inner;
+	}
+
+	/** The width between the outer walls, given the columns' outer widths. */
+	private getInnerWidth(outerWidths: number[]): number {
+		const { inner } = this.getWallWidths();
+		return (
+			outerWidths.reduce((total, w) => total + w, 0) +
+			Math.max(0, outerWidths.length - 1) * inner
+		);
+	}
+
+	/**
+	 * Fits a border character to the width of its wall so that lines stay
+	 * aligned when some characters are empty: a wall without width drops its
+	 * character, and a missing character is filled in.
+	 */
+	private fitBorderChar(char: string, width: number, fill: string): string {
+		if (width === 0) return "";
+		return char === "" ? fill.repeat(width) : char;
+	}
+
+	/**
+	 * Renders a horizontal rule between rows whose cells may span several
+	 * columns. Each inner boundary gets a junction that connects to the column
+	 * walls above and below it, or a plain line where neither side has a wall.
+	 */
+	private renderSpanSeparator(
+		outerWidths: number[],
+		above: boolean[],
+		below: boolean[],
+		kind: RuleKind,
+		dotted = false,
+	): string[] {
+		if (!this.hasRule(kind)) {
+			return [];
+		}
+		const { cross, down, up } = this.rules[kind];
+		const horizontal = dotted
+			? getDottedLine(this.rules[kind].horizontal)
+			: this.rules[kind].horizontal;
+		const { inner } = this.getWallWidths();
+		const junction = (char: string) =>
+			this.fitBorderChar(char, inner, horizontal);
+		const [left, right] = this.getRuleEnds(kind);
+
+		let line = left;
+		outerWidths.forEach((w, i) => {
+			line += horizontal.repeat(w);
+			if (i === outerWidths.length - 1) return;
+			if (above[i] && below[i]) {
+				line += junction(cross);
+			} else if (below[i]) {
+				line += junction(down);
+			} else if (above[i]) {
+				line += junction(up);
+			} else {
+				line += horizontal.repeat(inner);
+			}
 		});
-		const left = this.borderChars[leftKey];
-		const middle = this.borderChars[middleKey];
-		const right = this.borderChars[rightKey];
-		return `${left}${parts.join(middle)}${right}`;
+		return [line + right];
 	}
 }
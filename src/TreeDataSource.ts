@@ -0,0 +1,260 @@
+import { toPlain } from "./FlattenedDataSource";
+import type { ITableDataSource } from "./ITableDataSource";
+import type {
+	CellTypes,
+	ColumnSchema,
+	JSONObject,
+	TreeNodeInfo,
+	TreeSource,
+} from "./types";
+
+const DEFAULT_CHILDREN_KEY = "children";
+
+/** A row of the flattened tree: a source row, or a nested child object. */
+interface TreeEntry extends TreeNodeInfo {
+	sourceRow?: number;
+	object?: JSONObject;
+}
+
+/** Reads a nested child's value as a cell. */
+function toCell(value: unknown): CellTypes {
+	const plain = toPlain(value);
+	if (typeof plain === "bigint") return plain.toString();
+	return (plain ?? null) as CellTypes;
+}
+
+/**
+ * A view of hierarchical data as rows in depth-first order, each annotated
+ * with its depth and position among its siblings so that tree guides can be
+ * drawn. The hierarchy comes either from a column holding each row's nested
+ * children, or from id and parent id columns.
+ */
+export class TreeDataSource implements ITableDataSource {
+	private readonly source: ITableDataSource;
+	private readonly columnNames: string[];
+	private readonly sourceIndices: number[]; // Source column of each column
+	private readonly entries: TreeEntry[] = [];
+
+	constructor(source: ITableDataSource, tree: TreeSource = {}) {
+		this.source = source;
+		const sourceColumnNames = source.getColumnNames();
+		const childrenKey =
+			tree.idKey === undefined && tree.parentKey === undefined
+				? (tree.childrenKey ?? DEFAULT_CHILDREN_KEY)
+				: undefined;
+		this.columnNames = sourceColumnNames.filter((name) => name !== childrenKey);
+		this.sourceIndices = this.columnNames.map((name) =>
+			sourceColumnNames.indexOf(name),
+		);
+
+		if (childrenKey !== undefined) {
+			this.addNestedRows(childrenKey);
+		} else {
+			this.addLinkedRows(tree.idKey, tree.parentKey);
+		}
+	}
+
+	getColumnNames(): string[] {
+		return this.columnNames;
+	}
+
+	getRowCount(): number {
+		return this.entries.length;
+	}
+
+	getArrayRow(rowIndex: number): CellTypes[] {
+		const entry = this.getEntry(rowIndex);
+		if (entry.sourceRow !== undefined) {
+			const row = this.source.getArrayRow(entry.sourceRow);
+			return this.sourceIndices.map((i) => row[i]);
+		}
+		return this.columnNames.map((name) => toCell(entry.object?.[name]));
+	}
+
+	getObjectRow(rowIndex: number): JSONObject {
+		const entry = this.getEntry(rowIndex);
+		const row =
+			entry.sourceRow !== undefined
+				? this.source.getObjectRow(entry.sourceRow)
+				: (entry.object ?? {});
+		return Object.fromEntries(
+			this.columnNames.map((name) => [name, row[name] ?? null]),
+		);
+	}
+
+	/**
+	 * Describes the source columns, without the children column. Nested
+	 * children must have the same columns as the rows they hang from.
+	 */
+	getColumnSchema(): ColumnSchema[] {
+		return (this.source.getColumnSchema?.() ?? []).filter((column) =>
+			this.columnNames.includes(column.name),
+		);
+	}
+
+	/** Describes where a row sits in the tree. */
+	getNodeInfo(rowIndex: number): TreeNodeInfo {
+		const { depth, isLast, ancestorsLast, hasChildren } =
+			this.getEntry(rowIndex);
+		return { depth, isLast, ancestorsLast, hasChildren };
+	}
+
+	/**
+	 * Adds the ancestors of the given rows, so that each row keeps the branch
+	 * that leads to it, e.g. when filtering.
+	 */
+	withAncestors(rowIndices: number[]): number[] {
+		const rows = new Set(rowIndices);
+		for (const rowIndex of [...rowIndices].sort((a, b) => a - b)) {
+			let depth = this.getEntry(rowIndex).depth;
+			for (let i = rowIndex - 1; i >= 0 && depth > 0; i--) {
+				if (this.entries[i].depth >= depth) continue;
+				// Rows already kept have had their own ancestors added.
+				if (rows.has(i)) break;
+				rows.add(i);
+				depth = this.entries[i].depth;
+			}
+		}
+		return [...rows].sort((a, b) => a - b);
+	}
+
+	/**
+	 * Describes where each of the given rows sits in the tree made of just
+	 * those rows, in order. The rows must include their ancestors.
+	 */
+	getSubtreeInfo(rowIndices: number[]): TreeNodeInfo[] {
+		const depths = rowIndices.map((rowIndex) => this.getEntry(rowIndex).depth);
+
+		// Walking backwards, a row is the last of its siblings unless a later
+		// row at its depth was seen since the parent's branch began.
+		const isLast: boolean[] = [];
+		const laterSibling: boolean[] = [];
+		for (let i = depths.length - 1; i >= 0; i--) {
+			isLast[i] = !laterSibling[depths[i]];
+			laterSibling[depths[i]] = true;
+			laterSibling.length = depths[i] + 1;
+		}
+
+		const branch: boolean[] = []; // isLast of the current row's ancestors
+		return depths.map((depth, i) => {
+			branch.length = depth;
+			const info = {
+				depth,
+				isLast: isLast[i],
+				ancestorsLast: [...branch],
+				hasChildren: depths[i + 1] === depth + 1,
+			};
+			branch.push(isLast[i]);
+			return info;
+		});
+	}
+
+	private getEntry(rowIndex: number): TreeEntry {
+		const entry = this.entries[rowIndex];
+		if (!entry) {
+			throw new Error(`Row index out of bounds: ${rowIndex}`);
+		}
+		return entry;
+	}
+
+	/** Walks the source rows and their nested children, depth first. */
+	private addNestedRows(childrenKey: string): void {
+		const childrenIndex = this.source.getColumnNames().indexOf(childrenKey);
+		const childrenOf = (value: unknown): JSONObject[] => {
+			const children = toPlain(value);
+			return Array.isArray(children)
+				? children.map((child) => toPlain(child) as JSONObject)
+				: [];
+		};
+
+		const visit = (
+			object: JSONObject,
+			ancestorsLast: boolean[],
+			isLast: boolean,
+		) => {
+			const children = childrenOf(object[childrenKey]);
+			this.entries.push({
+				object,
+				depth: ancestorsLast.length,
+				isLast,
+				ancestorsLast,
+				hasChildren: children.length > 0,
+			});
+			children.forEach((child, i) => {
+				visit(child, [...ancestorsLast, isLast], i === children.length - 1);
+			});
+		};
+
+		const rowCount = this.source.getRowCount();
+		for (let i = 0; i < rowCount; i++) {
+			const children =
+				childrenIndex < 0
+					? []
+					: childrenOf(this.source.getArrayRow(i)[childrenIndex]);
+			this.entries.push({
+				sourceRow: i,
+				depth: 0,
+				isLast: i === rowCount - 1,
+				ancestorsLast: [],
+				hasChildren: children.length > 0,
+			});
+			children.forEach((child, k) => {
+				visit(child, [i === rowCount - 1], k === children.length - 1);
+			});
+		}
+	}
+
+	/**
+	 * Builds the tree from id and parent id columns. Rows whose parent id is
+	 * null or matches no row are roots; siblings keep their source order.
+	 */
+	private addLinkedRows(idKey = "id", parentKey = "parentId"): void {
+		const columnNames = this.source.getColumnNames();
+		const idIndex = columnNames.indexOf(idKey);
+		const parentIndex = columnNames.indexOf(parentKey);
+		if (idIndex < 0 || parentIndex < 0) {
+			throw new Error(
+				`Tree needs both the "${idKey}" and "${parentKey}" columns`,
+			);
+		}
+
+		const rowCount = this.source.getRowCount();
+		const rows = Array.from({ length: rowCount }, (_, i) =>
+			this.source.getArrayRow(i),
+		);
+		const ids = new Set(rows.map((row) => JSON.stringify(row[idIndex])));
+		const children = new Map<string, number[]>();
+		const roots: number[] = [];
+		rows.forEach((row, i) => {
+			const parent = row[parentIndex];
+			const parentId = JSON.stringify(parent);
+			if (parent === null || !ids.has(parentId)) {
+				roots.push(i);
+			} else {
+				children.set(parentId, [...(children.get(parentId) ?? []), i]);
+			}
+		});
+
+		const visit = (row: number, ancestorsLast: boolean[], isLast: boolean) => {
+			const kids = children.get(JSON.stringify(rows[row][idIndex])) ?? [];
+			this.entries.push({
+				sourceRow: row,
+				depth: ancestorsLast.length,
+				isLast,
+				ancestorsLast,
+				hasChildren: kids.length > 0,
+			});
+			kids.forEach((kid, i) => {
+				visit(kid, [...ancestorsLast, isLast], i === kids.length - 1);
+			});
+		};
+		roots.forEach((root, i) => {
+			visit(root, [], i === roots.length - 1);
+		});
+
+		// Rows whose parent chain loops back on itself are never reached.
+		if (this.entries.length < rowCount) {
+			throw new Error("Tree rows form a cycle through their parent ids");
+		}
+	}
+}
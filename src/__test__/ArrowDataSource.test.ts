@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { tableFromArrays } from "apache-arrow";
+import {
+	Field,
+	Float64,
+	RecordBatch,
+	Schema,
+	Table,
+	tableFromArrays,
+} from "apache-arrow";
 import { ArrowDataSource } from "../ArrowDataSource";
 
 describe("ArrowDataSource", () => {
@@ -38,4 +45,45 @@ describe("ArrowDataSource", () => {
 		expect(row1[2]).toBe("2023-01-01T12:00:00.000Z"); // Date converted to ISO string
 		expect(row1[3]).toBe(true);
 	});
+
+	it("should describe the columns from the Arrow schema", () => {
+		const source = new ArrowDataSource(arrowTable);
+		expect(source.getColumnSchema()).toEqual([
+			{ name: "id", type: "number", nullable: true, nativeType: "Int64" },
+			{
+				name: "name",
+				type: "string",
+				nullable: true,
+				nativeType: "Dictionary<Int32, Utf8>",
+			},
+			{
+				name: "timestamp",
+				type: "timestamp",
+				nullable: true,
+				nativeType: "Timestamp<MILLISECOND>",
+			},
+			{ name: "active", type: "boolean", nullable: true, nativeType: "Bool" },
+		]);
+	});
+
+	it("should include field metadata in the schema", () => {
+		const schema = new Schema([
+			new Field("price", new Float64(), false, new Map([["unit", "EUR"]])),
+		]);
+		const { batches } = tableFromArrays({ price: new Float64Array([1.5]) });
+		const table = new Table(
+			schema,
+			batches.map((batch) => new RecordBatch(schema, batch.data)),
+		);
+		const source = new ArrowDataSource(table);
+		expect(source.getColumnSchema()).toEqual([
+			{
+				name: "price",
+				type: "number",
+				nullable: false,
+				nativeType: "Float64",
+				metadata: { unit: "EUR" },
+			},
+		]);
+	});
 });
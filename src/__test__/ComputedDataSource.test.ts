@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { tableFromArrays } from "apache-arrow";
+import { ComputedDataSource } from "../ComputedDataSource";
+import { ArrowDataSource } from "../ArrowDataSource";
+import { JSONDataSource, type JSONObject } from "../JSONDataSource";
+
+describe("ComputedDataSource", () => {
+	const sampleData: JSONObject[] = [
+		{ item: "Pen", price: 3, cost: 1 },
+		{ item: "Ink", price: 10, cost: 6 },
+	];
+	const source = new JSONDataSource(sampleData);
+	const margin = (row: JSONObject) => Number(row.price) - Number(row.cost);
+
+	it("should insert computed columns after the given column", () => {
+		const view = new ComputedDataSource(source, {
+			margin: { after: "price", value: margin },
+			label: { value: (row, i) => `${i}:${row.item}` },
+		});
+		expect(view.getColumnNames()).toEqual([
+			"item",
+			"price",
+			"margin",
+			"cost",
+			"label",
+		]);
+		expect(view.getRowCount()).toBe(2);
+		expect(view.getArrayRow(1)).toEqual(["Ink", 10, 4, 6, "1:Ink"]);
+		expect(view.getObjectRow(0)).toEqual({
+			item: "Pen",
+			price: 3,
+			cost: 1,
+			margin: 2,
+			label: "0:Pen",
+		});
+	});
+
+	it("should let later computed columns use earlier ones", () => {
+		const view = new ComputedDataSource(source, {
+			margin: { value: margin },
+			marginPct: {
+				value: (row) =>
+					Math.round((Number(row.margin) / Number(row.price)) * 100),
+			},
+		});
+		expect(view.getArrayRow(1)).toEqual(["Ink", 10, 6, 4, 40]);
+	});
+
+	it("should compute from Arrow rows", () => {
+		const view = new ComputedDataSource(
+			new ArrowDataSource(tableFromArrays({ qty: [2n, 5n], unit: [1.5, 2] })),
+			{ total: { value: (row) => Number(row.qty) * Number(row.unit) } },
+		);
+		expect(view.getArrayRow(0)).toEqual(["2", 1.5, 3]);
+		expect(view.getArrayRow(1)).toEqual(["5", 2, 10]);
+	});
+
+	it("should reject clashing names and unknown anchor columns", () => {
+		expect(
+			() => new ComputedDataSource(source, { price: { value: () => 1 } }),
+		).toThrow('Computed column "price" already exists');
+		expect(
+			() =>
+				new ComputedDataSource(source, {
+					x: { after: "nope", value: () => 1 },
+				}),
+		).toThrow('Unknown column "nope" in computed column "x"');
+	});
+
+	it("should describe the source columns only", () => {
+		const computed = new ComputedDataSource(source, {
+			margin: { value: margin },
+		});
+		expect(computed.getColumnSchema().map((column) => column.name)).toEqual([
+			"item",
+			"price",
+			"cost",
+		]);
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { FilteredDataSource } from "../FilteredDataSource";
+import { JSONDataSource, type JSONObject } from "../JSONDataSource";
+
+describe("FilteredDataSource", () => {
+	const sampleData: JSONObject[] = [
+		{ id: 1, name: "Alice", score: 90 },
+		{ id: 2, name: "Bob", score: null },
+		{ id: 3, name: "Carol", score: 75 },
+		{ id: 4, name: "alan", score: 60 },
+	];
+	const source = new JSONDataSource(sampleData);
+
+	it("should expose only the rows matching a predicate", () => {
+		const view = new FilteredDataSource(source, (row) => row.id !== 2);
+		expect(view.getColumnNames()).toEqual(["id", "name", "score"]);
+		expect(view.getRowCount()).toBe(3);
+		expect(view.getArrayRow(1)).toEqual([3, "Carol", 75]);
+		expect(view.getObjectRow(2)).toEqual({ id: 4, name: "alan", score: 60 });
+	});
+
+	it("should pass the source row index to the predicate", () => {
+		const view = new FilteredDataSource(source, (_, index) => index % 2 === 1);
+		expect(view.getSourceRowIndex(0)).toBe(1);
+		expect(view.getSourceRowIndex(1)).toBe(3);
+		expect(view.getTotalRowCount()).toBe(4);
+	});
+
+	it("should support declarative conditions", () => {
+		const count = (
+			filter: ConstructorParameters<typeof FilteredDataSource>[1],
+		) => new FilteredDataSource(source, filter).getRowCount();
+		expect(count({ column: "name", op: "eq", value: "Bob" })).toBe(1);
+		expect(count({ column: "score", op: "ne", value: 75 })).toBe(3);
+		expect(count({ column: "name", op: "contains", value: "l" })).toBe(3);
+		expect(count({ column: "score", op: "gt", value: 60 })).toBe(2);
+		expect(count({ column: "score", op: "lte", value: "75" })).toBe(2);
+		expect(count({ column: "name", op: "regex", value: /^a/i })).toBe(2);
+		expect(count({ column: "name", op: "regex", value: "^[A-C]" })).toBe(3);
+	});
+
+	it("should let views wrap other views", () => {
+		const inner = new FilteredDataSource(source, {
+			column: "score",
+			op: "gte",
+			value: 60,
+		});
+		const outer = new FilteredDataSource(inner, (row) => row.id !== 1);
+		expect(outer.getRowCount()).toBe(2);
+		expect(outer.getArrayRow(0)).toEqual([3, "Carol", 75]);
+	});
+
+	it("should throw for unknown columns and out-of-bounds rows", () => {
+		expect(
+			() => new FilteredDataSource(source, { column: "x", op: "eq", value: 1 }),
+		).toThrow('Unknown filter column "x"');
+		const view = new FilteredDataSource(source, () => false);
+		expect(() => view.getArrayRow(0)).toThrow("Row index out of bounds: 0");
+	});
+});
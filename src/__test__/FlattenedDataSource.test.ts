@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+	Field,
+	Int32,
+	List,
+	Struct,
+	Table,
+	Utf8,
+	vectorFromArray,
+} from "apache-arrow";
+import { FlattenedDataSource } from "../FlattenedDataSource";
+import { ArrowDataSource } from "../ArrowDataSource";
+import { JSONDataSource, type JSONObject } from "../JSONDataSource";
+
+describe("FlattenedDataSource", () => {
+	const sampleData = [
+		{
+			id: 1,
+			user: { name: "Ann", geo: { lat: 1, lng: 2 } },
+			roles: ["admin", "dev", "ops"],
+		},
+		{ id: 2, user: { name: "Bo", email: "bo@example.com" }, roles: [] },
+	] as unknown as JSONObject[];
+	const source = new JSONDataSource(sampleData);
+
+	it("should expand one level of nesting by default", () => {
+		const view = new FlattenedDataSource(source);
+		expect(view.getColumnNames()).toEqual([
+			"id",
+			"user.name",
+			"user.geo",
+			"user.email",
+			"roles",
+		]);
+		expect(view.getArrayRow(0)).toEqual([
+			1,
+			"Ann",
+			{ lat: 1, lng: 2 },
+			null,
+			"admin, dev, ops",
+		]);
+		expect(view.getColumnPath("user.geo")).toEqual(["user", "geo"]);
+		expect(view.getColumnPath("id")).toEqual(["id"]);
+	});
+
+	it("should expand to a given depth or only the given paths", () => {
+		expect(
+			new FlattenedDataSource(source, { depth: 2 }).getColumnNames(),
+		).toEqual([
+			"id",
+			"user.name",
+			"user.geo.lat",
+			"user.geo.lng",
+			"user.email",
+			"roles",
+		]);
+		const view = new FlattenedDataSource(source, { paths: ["user.geo"] });
+		expect(view.getColumnNames()).toEqual([
+			"id",
+			"user.name",
+			"user.geo.lat",
+			"user.geo.lng",
+			"user.email",
+			"roles",
+		]);
+		expect(
+			new FlattenedDataSource(source, { paths: [] }).getColumnNames(),
+		).toEqual(["id", "user", "roles"]);
+	});
+
+	it("should apply the array strategy", () => {
+		const count = new FlattenedDataSource(source, { arrays: "count" });
+		expect(count.getArrayRow(0)[4]).toBe(3);
+		expect(count.getArrayRow(1)[4]).toBe(0);
+		const first = new FlattenedDataSource(source, {
+			arrays: { first: 2 },
+			separator: " | ",
+		});
+		expect(first.getArrayRow(0)[4]).toBe("admin | dev | +1 more");
+	});
+
+	it("should add flattened values to object rows", () => {
+		const view = new FlattenedDataSource(source);
+		expect(view.getObjectRow(1)).toMatchObject({
+			id: 2,
+			"user.name": "Bo",
+			"user.email": "bo@example.com",
+		});
+	});
+
+	it("should flatten Arrow struct and list columns", () => {
+		const table = new Table({
+			id: vectorFromArray([1, 2], new Int32()),
+			address: vectorFromArray(
+				[
+					{ city: "Oslo", zip: "0150" },
+					{ city: "Rome", zip: null },
+				],
+				new Struct([
+					new Field("city", new Utf8(), true),
+					new Field("zip", new Utf8(), true),
+				]),
+			),
+			tags: vectorFromArray(
+				[["a", "b"], []],
+				new List(new Field("item", new Utf8(), true)),
+			),
+		});
+		const view = new FlattenedDataSource(new ArrowDataSource(table));
+		expect(view.getColumnNames()).toEqual([
+			"id",
+			"address.city",
+			"address.zip",
+			"tags",
+		]);
+		expect(view.getArrayRow(0)).toEqual([1, "Oslo", "0150", "a, b"]);
+		expect(view.getArrayRow(1)).toEqual([2, "Rome", null, ""]);
+	});
+
+	it("should only describe the columns it passes through", () => {
+		const flattened = new FlattenedDataSource(source);
+		expect(flattened.getColumnSchema()).toEqual([
+			{ name: "id", type: "number", nullable: false },
+		]);
+	});
+});
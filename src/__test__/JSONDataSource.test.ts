@@ -53,4 +53,38 @@ describe("JSONDataSource", () => {
 		expect(source.getColumnNames()).toEqual(["id", "name"]);
 		expect(source.getArrayRow(1)).toEqual([2, null]);
 	});
+
+	it("should infer the column schema from the data", () => {
+		const source = new JSONDataSource([
+			...sampleData,
+			{ id: 3, name: "Cy", value: 7, data: null },
+		]);
+		expect(source.getColumnSchema()).toEqual([
+			{ name: "id", type: "number", nullable: false },
+			{ name: "name", type: "string", nullable: false },
+			{ name: "value", type: "number", nullable: true },
+			{ name: "data", type: "object", nullable: true },
+		]);
+	});
+
+	it("should treat columns of mixed values as strings", () => {
+		const source = new JSONDataSource([
+			{ code: 1, note: "x" },
+			{ code: "B" } as JSONObject,
+		]);
+		expect(source.getColumnSchema()).toEqual([
+			{ name: "code", type: "string", nullable: false },
+			{ name: "note", type: "string", nullable: true },
+		]);
+	});
+
+	it("should leave out columns without a value in the sampled rows", () => {
+		const source = new JSONDataSource([
+			{ code: 1, note: null },
+			{ code: 2 } as JSONObject,
+		]);
+		expect(source.getColumnSchema()).toEqual([
+			{ name: "code", type: "number", nullable: false },
+		]);
+	});
 });
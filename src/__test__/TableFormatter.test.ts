@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { TableFormatter } from "../TableFormatter";
 import { JSONDataSource, JSONObject } from "../JSONDataSource";
+import { ArrowDataSource } from "../ArrowDataSource";
+import { FilteredDataSource } from "../FilteredDataSource";
+import { bytesFormatter } from "../humanize";
+import { tableFromArrays } from "apache-arrow";
 import chalk from "chalk";
-import { TableTheme } from "../types";
+import { BorderChars, TableConfig, TableTheme } from "../types";
 
 describe("TableFormatter", () => {
 	// Disable color for snapshot consistency, but manage it per-test
@@ -120,6 +124,22 @@ describe("TableFormatter", () => {
 			const output = formatter.render();
 			expect(output).toContain("\u001b[38;2;138;43;226m");
 		});
+
+		it("should fill the optional theme slots from the defaults", () => {
+			chalk.level = 1;
+			const theme: TableTheme = {
+				header: { color: "red" },
+				cell: {},
+				alternatingCell: {},
+				footer: {},
+			};
+			const formatter = new TableFormatter(source, {
+				theme,
+				title: "Users",
+			});
+			const output = formatter.render();
+			expect(output.split("\n")[1]).toContain("\u001b[1m"); // bold title
+		});
 	});
 
 	// --- New Advanced Formatting and Dynamic Styles Tests ---
@@ -366,4 +386,1661 @@ describe("TableFormatter", () => {
 			expect(output).toMatchSnapshot();
 		});
 	});
+
+	describe("Overflow and Wrapping", () => {
+		const wrapData: JSONObject[] = [
+			{ id: 1, note: "The quick brown fox jumps over the lazy dog" },
+			{ id: 2, note: "Short" },
+		];
+		const wrapSource = new JSONDataSource(wrapData);
+
+		it("should word-wrap long cells and keep every line boxed", () => {
+			const formatter = new TableFormatter(wrapSource, {
+				maxWidth: 30,
+				overflow: "wrap",
+				columns: { id: { minWidth: 2 } },
+			});
+			const output = formatter.render();
+			const lines = output.split("\n");
+
+			for (const line of lines) {
+				expect(line.length).toBe(30);
+			}
+			expect(output).not.toContain("…");
+			expect(lines[3]).toBe("│ 1  │ The quick brown fox   │");
+			expect(lines[4]).toBe("│    │ jumps over the lazy   │");
+			expect(lines[5]).toBe("│    │ dog                   │");
+			expect(lines[6]).toBe("│ 2  │ Short                 │");
+			expect(output).toMatchSnapshot();
+		});
+
+		it("should narrow wrapping columns before squeezing the others", () => {
+			const data = [
+				{
+					id: 1,
+					name: "Alice",
+					note: "The quick brown fox jumps over the lazy dog and keeps running",
+				},
+				{ id: 2, name: "Bob", note: "Short" },
+			];
+			const formatter = new TableFormatter(new JSONDataSource(data), {
+				maxWidth: 30,
+				overflow: "wrap",
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(1, 5)).toEqual([
+				"│ id │ name  │ note          │",
+				"├────┼───────┼───────────────┤",
+				"│ 1  │ Alice │ The quick     │",
+				"│    │       │ brown fox     │",
+			]);
+		});
+
+		it("should break at any character in char-wrap mode", () => {
+			const data = [{ code: "ABCDEFGHIJKLMNOPQRSTUVWXYZ" }];
+			const formatter = new TableFormatter(new JSONDataSource(data), {
+				maxWidth: 14,
+				overflow: "char-wrap",
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 6)).toEqual([
+				"│ ABCDEFGHIJ │",
+				"│ KLMNOPQRST │",
+				"│ UVWXYZ     │",
+			]);
+		});
+
+		it("should keep styled text from spilling over the walls", () => {
+			chalk.level = 1;
+			const data = [{ code: "ABCDEFGHIJ KLMNOPQRSTUVWXYZ" }];
+			const lines = (overflow: "wrap" | "char-wrap") =>
+				new TableFormatter(new JSONDataSource(data), {
+					maxWidth: 14,
+					overflow,
+					columns: {
+						code: { formatter: (value) => chalk.red(String(value)) },
+					},
+				})
+					.render()
+					.split("\n")
+					.slice(3, 6);
+			expect(lines("wrap")).toEqual([
+				"│ \u001b[31mABCDEFGHIJ\u001b[39m │",
+				"│ \u001b[31mKLMNOPQRST\u001b[39m │",
+				"│ \u001b[31mUVWXYZ\u001b[39m     │",
+			]);
+			expect(lines("char-wrap")).toEqual([
+				"│ \u001b[31mABCDEFGHIJ\u001b[39m │",
+				"│ \u001b[31m KLMNOPQRS\u001b[39m │",
+				"│ \u001b[31mTUVWXYZ\u001b[39m    │",
+			]);
+		});
+
+		it("should break words longer than the column in wrap mode", () => {
+			const data = [{ word: "Supercalifragilistic" }];
+			const formatter = new TableFormatter(new JSONDataSource(data), {
+				maxWidth: 12,
+				overflow: "wrap",
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 6)).toEqual([
+				"│ Supercal │",
+				"│ ifragili │",
+				"│ stic     │",
+			]);
+		});
+
+		it("should honor embedded newlines and size the column to the longest line", () => {
+			const data = [{ id: 1, text: "first line\nsecond" }];
+			const formatter = new TableFormatter(new JSONDataSource(data));
+			const lines = formatter.render().split("\n");
+			expect(lines[0]).toBe("┌────┬────────────┐");
+			expect(lines[3]).toBe("│ 1  │ first line │");
+			expect(lines[4]).toBe("│    │ second     │");
+			expect(lines[5]).toBe("└────┴────────────┘");
+		});
+
+		it("should let a column override the table-wide overflow mode", () => {
+			const data = [
+				{ a: "alpha beta gamma delta", b: "alpha beta gamma delta" },
+			];
+			const formatter = new TableFormatter(new JSONDataSource(data), {
+				maxWidth: 30,
+				overflow: "wrap",
+				columns: { b: { overflow: "truncate" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[3]).toBe("│ alpha │ alpha beta gamma … │");
+			expect(lines[4]).toBe("│ beta  │                    │");
+		});
+	});
+
+	describe("Vertical Alignment", () => {
+		const data: JSONObject[] = [{ id: "A1", notes: "one\ntwo\nthree" }];
+		const valignSource = new JSONDataSource(data);
+
+		it("should place shorter cells at the top by default", () => {
+			const lines = new TableFormatter(valignSource).render().split("\n");
+			expect(lines.slice(3, 6)).toEqual([
+				"│ A1 │ one   │",
+				"│    │ two   │",
+				"│    │ three │",
+			]);
+		});
+
+		it("should center shorter cells with verticalAlignment middle", () => {
+			const formatter = new TableFormatter(valignSource, {
+				columns: { id: { verticalAlignment: "middle" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 6)).toEqual([
+				"│    │ one   │",
+				"│ A1 │ two   │",
+				"│    │ three │",
+			]);
+		});
+
+		it("should push shorter cells down with verticalAlignment bottom", () => {
+			const formatter = new TableFormatter(valignSource, {
+				columns: { id: { verticalAlignment: "bottom" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 6)).toEqual([
+				"│    │ one   │",
+				"│    │ two   │",
+				"│ A1 │ three │",
+			]);
+		});
+
+		it("should keep multi-line formatter output inside the border", () => {
+			const formatter = new TableFormatter(valignSource, {
+				columns: {
+					id: { formatter: (val) => `${val}\n(id)` },
+					notes: { formatter: () => "single" },
+				},
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+	});
+
+	describe("Header Groups", () => {
+		const latencyData: JSONObject[] = [
+			{ host: "api-1", p50: 12, p95: 48, p99: 120 },
+			{ host: "api-2", p50: 9, p95: 35, p99: 98 },
+		];
+		const latencySource = new JSONDataSource(latencyData);
+
+		it("should render a centered group label spanning its columns", () => {
+			const formatter = new TableFormatter(latencySource, {
+				headerGroups: [[{ label: "Latency", columns: ["p50", "p95", "p99"] }]],
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(0, 5)).toEqual([
+				"┌───────┬─────────────────┐",
+				"│       │     Latency     │",
+				"├───────┼─────┬─────┬─────┤",
+				"│ host  │ p50 │ p95 │ p99 │",
+				"├───────┼─────┼─────┼─────┤",
+			]);
+		});
+
+		it("should stack several group rows with connecting junctions", () => {
+			const formatter = new TableFormatter(latencySource, {
+				headerGroups: [
+					[
+						{
+							label: "Service metrics",
+							columns: ["host", "p50", "p95", "p99"],
+						},
+					],
+					[{ label: "Latency", columns: ["p50", "p95", "p99"] }],
+				],
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should truncate group labels that do not fit their span", () => {
+			const formatter = new TableFormatter(latencySource, {
+				headerGroups: [
+					[{ label: "Latency in milliseconds", columns: ["p50", "p95"] }],
+				],
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[0]).toBe("┌───────┬───────────┬─────┐");
+			expect(lines[1]).toBe("│       │ Latency … │     │");
+		});
+
+		it("should style group labels with the headerGroup theme", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(latencySource, {
+				theme: { headerGroup: { color: "magenta" } },
+				headerGroups: [[{ label: "Latency", columns: ["p50", "p95", "p99"] }]],
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toContain("\u001b[35m");
+		});
+
+		it("should reject overlapping groups within one row", () => {
+			const formatter = new TableFormatter(latencySource, {
+				headerGroups: [
+					[
+						{ label: "A", columns: ["p50", "p95"] },
+						{ label: "B", columns: ["p95", "p99"] },
+					],
+				],
+			});
+			expect(() => formatter.render()).toThrow(
+				'Header group "B" overlaps another group in the same row',
+			);
+		});
+
+		it("should reject groups of columns that are not adjacent", () => {
+			const formatter = new TableFormatter(latencySource, {
+				headerGroups: [[{ label: "Tails", columns: ["p50", "p99"] }]],
+			});
+			expect(() => formatter.render()).toThrow(
+				'Header group "Tails" spans columns that are not adjacent',
+			);
+		});
+	});
+
+	describe("Vertical Record Layout", () => {
+		it("should render each row as a key/value block", () => {
+			const formatter = new TableFormatter(source, {
+				layout: "vertical",
+				maxWidth: 40,
+				columns: { name: { header: "Name" } },
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should switch to records in auto layout when columns become unreadable", () => {
+			const formatter = new TableFormatter(source, {
+				layout: "auto",
+				maxWidth: 20,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[0]).toBe("┌───────┬──────────┐");
+			expect(lines[1]).toBe("│ id    │ 1        │");
+			expect(lines[2]).toBe("│ name  │ A very … │");
+			expect(lines[3]).toBe("│ price │ 12.99    │");
+			expect(lines[4]).toBe("├───────┼──────────┤");
+		});
+
+		it("should stay horizontal in auto layout when the table fits", () => {
+			const auto = new TableFormatter(source, { layout: "auto", maxWidth: 80 });
+			const horizontal = new TableFormatter(source, { maxWidth: 80 });
+			expect(auto.render()).toBe(horizontal.render());
+		});
+
+		it("should respect the minReadableWidth threshold", () => {
+			const formatter = new TableFormatter(source, {
+				layout: "auto",
+				maxWidth: 40,
+				minReadableWidth: 30,
+			});
+			expect(formatter.render().split("\n")[1]).toBe(
+				"│ id    │ 1                            │",
+			);
+		});
+
+		it("should apply formatters, cell styles and row styles to record values", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(source, {
+				layout: "vertical",
+				maxWidth: 60,
+				rowStyle: (row) => (row.id === 2 ? { color: "red" } : undefined),
+				columns: {
+					price: {
+						formatter: (val) => `$${Number(val).toFixed(2)}`,
+						cellStyle: (val) => (Number(val) > 10 ? { bold: true } : undefined),
+					},
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[3]).toContain("$12.99");
+			expect(lines[3]).toContain("\u001b[1m $12.99");
+			expect(lines[5]).toContain("\u001b[31m 2");
+			expect(lines[7]).toContain("\u001b[31m $5.00");
+		});
+
+		it("should wrap record values and render the footer", () => {
+			const formatter = new TableFormatter(source, {
+				layout: "vertical",
+				maxWidth: 30,
+				overflow: "wrap",
+				footer: (info) => `${info.displayedRows} records`,
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+	});
+
+	describe("Column Priority", () => {
+		const wideData: JSONObject[] = [
+			{
+				id: 1,
+				name: "Supernova Gizmo",
+				category: "Electronics",
+				notes: "Ships in two weeks",
+			},
+			{ id: 2, name: "Quantum Widget", category: "Tools", notes: "In stock" },
+		];
+		const wideSource = new JSONDataSource(wideData);
+
+		it("should hide the lowest-priority columns whole instead of squeezing", () => {
+			const formatter = new TableFormatter(wideSource, {
+				maxWidth: 40,
+				columns: {
+					category: { priority: 2 },
+					notes: { priority: 1 },
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe("│ id │ name            │ category    │");
+			expect(lines[3]).toBe("│ 1  │ Supernova Gizmo │ Electronics │");
+			expect(formatter.render()).not.toContain("notes");
+		});
+
+		it("should keep dropping columns until the rest are readable", () => {
+			const formatter = new TableFormatter(wideSource, {
+				maxWidth: 26,
+				columns: {
+					category: { priority: 2 },
+					notes: { priority: 1 },
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe("│ id │ name            │");
+		});
+
+		it("should never hide columns without a priority", () => {
+			const formatter = new TableFormatter(wideSource, {
+				maxWidth: 30,
+				columns: { notes: { priority: 1 } },
+			});
+			// The unprioritized columns are squeezed rather than hidden.
+			const header = formatter.render().split("\n")[1];
+			expect(header).toBe("│ … │ name        │ category │");
+		});
+
+		it("should keep every column when the table fits", () => {
+			const formatter = new TableFormatter(wideSource, {
+				maxWidth: 120,
+				columns: { notes: { priority: 1 } },
+			});
+			expect(formatter.render()).toContain("notes");
+		});
+
+		it("should report hidden columns to the footer", () => {
+			const formatter = new TableFormatter(wideSource, {
+				maxWidth: 40,
+				columns: {
+					category: { priority: 2 },
+					notes: { priority: 1 },
+				},
+				footer: (info) => `Hidden: ${info.hiddenColumns.join(", ") || "none"}`,
+			});
+			expect(formatter.render()).toContain("Hidden: notes");
+		});
+
+		it("should still let hidden columns drive row styles", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(wideSource, {
+				maxWidth: 40,
+				rowStyle: (row) =>
+					row.notes === "In stock" ? { color: "green" } : undefined,
+				columns: { notes: { priority: 1 }, category: { priority: 2 } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[4]).toContain("\u001b[32m");
+			expect(lines[3]).not.toContain("\u001b[32m");
+		});
+	});
+
+	describe("Column Paging", () => {
+		const metricsData: JSONObject[] = [
+			{
+				id: 1,
+				cpu: "12%",
+				memory: "1.2 GiB",
+				disk: "40 GiB",
+				network: "3 Mb/s",
+			},
+			{
+				id: 2,
+				cpu: "85%",
+				memory: "7.9 GiB",
+				disk: "12 GiB",
+				network: "9 Mb/s",
+			},
+		];
+		const metricsSource = new JSONDataSource(metricsData);
+
+		it("should split columns into stacked sections that each fit", () => {
+			const formatter = new TableFormatter(metricsSource, {
+				maxWidth: 30,
+				columnPaging: {},
+			});
+			const output = formatter.render();
+			for (const line of output.split("\n")) {
+				expect(line.length).toBeLessThanOrEqual(30);
+			}
+			expect(output).not.toContain("…");
+			expect(output).toMatchSnapshot();
+		});
+
+		it("should repeat key columns at the left of every section", () => {
+			const formatter = new TableFormatter(metricsSource, {
+				maxWidth: 30,
+				columnPaging: { keyColumns: ["id"] },
+			});
+			const sections = formatter.render().split("\n\n");
+			expect(sections.length).toBeGreaterThan(1);
+			for (const section of sections) {
+				expect(section.split("\n")[1]).toMatch(/^│ id │/);
+			}
+		});
+
+		it("should report each section's column range to the footer", () => {
+			const ranges: string[] = [];
+			const formatter = new TableFormatter(metricsSource, {
+				maxWidth: 30,
+				columnPaging: { keyColumns: ["id"] },
+				footer: (info) => {
+					ranges.push(
+						`${info.columnStart}-${info.columnEnd}/${info.totalColumns}`,
+					);
+					return "";
+				},
+			});
+			formatter.render();
+			expect(ranges).toEqual(["1-3/5", "3-5/5"]);
+		});
+
+		it("should leave the row number column out of the column range", () => {
+			const ranges: string[] = [];
+			const formatter = new TableFormatter(metricsSource, {
+				maxWidth: 30,
+				rowNumbers: true,
+				columnPaging: { keyColumns: ["id"] },
+				footer: (info) => {
+					ranges.push(
+						`${info.columnStart}-${info.columnEnd}/${info.totalColumns}`,
+					);
+					return "";
+				},
+			});
+			formatter.render();
+			expect(ranges).toEqual(["1-3/5", "3-5/5"]);
+		});
+
+		it("should keep key columns at their natural width and name them", () => {
+			const data = [
+				{
+					host: "srv-01",
+					name: "alpha",
+					description: "A very long description that cannot fit anywhere",
+				},
+			];
+			const formatter = new TableFormatter(new JSONDataSource(data), {
+				maxWidth: 30,
+				columnPaging: { keyColumns: ["host"] },
+			});
+			const sections = formatter.render().split("\n\n");
+			expect(sections[1].split("\n")).toEqual([
+				"┌────────┬───────────────────┐",
+				"│ host   │ description       │",
+				"├────────┼───────────────────┤",
+				"│ srv-01 │ A very long desc… │",
+				"├────────┴───────────────────┤",
+				"│ Column 3 of 3, with host   │",
+				"└────────────────────────────┘",
+			]);
+		});
+
+		it("should render a single section when everything fits", () => {
+			const formatter = new TableFormatter(metricsSource, {
+				maxWidth: 120,
+				columnPaging: { keyColumns: ["id"] },
+			});
+			const output = formatter.render();
+			expect(output).not.toContain("\n\n");
+			expect(output).not.toContain("Columns");
+		});
+
+		it("should wrap a section footer wider than its section", () => {
+			const formatter = new TableFormatter(metricsSource, {
+				maxWidth: 12,
+				columnPaging: {},
+			});
+			const lines = formatter.render().split("\n\n")[0].split("\n");
+			expect(lines.slice(6, 8)).toEqual(["│ Columns  │", "│ 1-2 of 5 │"]);
+			for (const line of lines) {
+				expect(line.length).toBe(lines[0].length);
+			}
+		});
+	});
+
+	describe("Column Window and Pinning", () => {
+		const gridData: JSONObject[] = [
+			{ id: 1, a: "a1", b: "b1", c: "c1", d: "d1", total: 10 },
+			{ id: 2, a: "a2", b: "b2", c: "c2", d: "d2", total: 20 },
+		];
+		const gridSource = new JSONDataSource(gridData);
+		const pinned = {
+			id: { pinned: "left" as const },
+			total: { pinned: "right" as const },
+		};
+
+		it("should window unpinned columns and mark both scrolled edges", () => {
+			const formatter = new TableFormatter(gridSource, {
+				columns: pinned,
+				columnOffset: 1,
+				columnLimit: 2,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[0]).toBe("┌────┬────┬────┬───────┐");
+			expect(lines[1]).toBe("│ id ◀ b  │ c  ▶ total │");
+			expect(lines[3]).toBe("│ 1  ◀ b1 │ c1 ▶ 10    │");
+		});
+
+		it("should not draw markers when nothing is scrolled out", () => {
+			const formatter = new TableFormatter(gridSource, { columns: pinned });
+			const output = formatter.render();
+			expect(output).not.toContain("◀");
+			expect(output).not.toContain("▶");
+			// Pinned columns move to the table edges.
+			expect(output.split("\n")[1]).toBe("│ id │ a  │ b  │ c  │ d  │ total │");
+		});
+
+		it("should use the outer wall as the marker without pinned columns", () => {
+			const formatter = new TableFormatter(gridSource, {
+				columnOffset: 2,
+				columnLimit: 2,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe("◀ b  │ c  ▶");
+		});
+
+		it("should default the markers of custom border characters", () => {
+			const border: BorderChars = {
+				horizontal: "-",
+				vertical: "|",
+				topLeft: "+",
+				topRight: "+",
+				bottomLeft: "+",
+				bottomRight: "+",
+				headerLeft: "+",
+				headerRight: "+",
+				topSeparator: "+",
+				middleSeparator: "+",
+				bottomSeparator: "+",
+				cellSeparator: "|",
+			};
+			const formatter = new TableFormatter(gridSource, {
+				border,
+				columnOffset: 2,
+				columnLimit: 2,
+			});
+			expect(formatter.render().split("\n")[1]).toBe("◀ b  | c  ▶");
+		});
+
+		it("should give the markers a gutter when the outer walls are empty", () => {
+			const render = (border: "compact" | "borderless") =>
+				new TableFormatter(gridSource, {
+					border,
+					columnOffset: 2,
+					columnLimit: 2,
+				})
+					.render()
+					.split("\n");
+			expect(render("compact")).toEqual([
+				"◀ b  │ c  ▶",
+				"─────┼─────",
+				"◀ b1 │ c1 ▶",
+				"◀ b2 │ c2 ▶",
+			]);
+			expect(render("borderless")).toEqual([
+				"◀ b    c  ▶",
+				"◀ b1   c1 ▶",
+				"◀ b2   c2 ▶",
+			]);
+		});
+
+		it("should keep at least one column in view when the offset overshoots", () => {
+			const formatter = new TableFormatter(gridSource, { columnOffset: 99 });
+			expect(formatter.render().split("\n")[1]).toBe("◀ total │");
+		});
+
+		it("should report scrolled-out column counts to the footer", () => {
+			const formatter = new TableFormatter(gridSource, {
+				columns: pinned,
+				columnOffset: 1,
+				columnLimit: 2,
+				footer: (info) =>
+					`◀ ${info.columnsBefore} more | ${info.columnsAfter} more ▶`,
+			});
+			expect(formatter.render()).toContain("◀ 1 more | 1 more ▶");
+		});
+	});
+
+	describe("Row Numbers", () => {
+		const manyRows: JSONObject[] = Array.from({ length: 250 }, (_, i) => ({
+			item: `Item ${i}`,
+		}));
+		const manySource = new JSONDataSource(manyRows);
+
+		it("should prepend a right-aligned, 1-based index column", () => {
+			const formatter = new TableFormatter(source, { rowNumbers: true });
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toMatch(/^│ # │ id/);
+			expect(lines[3]).toMatch(/^│ 1 │ 1 /);
+			expect(lines[4]).toMatch(/^│ 2 │ 2 /);
+		});
+
+		it("should number rows by their absolute source index", () => {
+			const formatter = new TableFormatter(manySource, {
+				rowNumbers: true,
+				rowOffset: 200,
+				rowLimit: 2,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe("│   # │ item     │");
+			expect(lines[3]).toBe("│ 201 │ Item 200 │");
+			expect(lines[4]).toBe("│ 202 │ Item 201 │");
+		});
+
+		it("should support a 0 base, custom header, alignment and style", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(manySource, {
+				rowLimit: 2,
+				rowNumbers: {
+					base: 0,
+					header: "idx",
+					alignment: "left",
+					style: { color: "cyan" },
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toContain("idx");
+			expect(lines[3]).toContain("\u001b[36m 0   \u001b[39m");
+		});
+
+		it("should never truncate the row numbers when space is short", () => {
+			const formatter = new TableFormatter(manySource, {
+				rowNumbers: true,
+				rowOffset: 248,
+				maxWidth: 12,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[3]).toBe("│ 249 │ I… │");
+			expect(lines[4]).toBe("│ 250 │ I… │");
+		});
+	});
+
+	describe("Summary Row", () => {
+		const orders: JSONObject[] = [
+			{ item: "Apple", qty: 3, price: 1.5 },
+			{ item: "Pear", qty: 2, price: 2.25 },
+			{ item: "Plum", qty: 5, price: 0.75 },
+		];
+		const orderSource = new JSONDataSource(orders);
+
+		it("should render aggregates below a separator, with a label", () => {
+			const formatter = new TableFormatter(orderSource, {
+				summary: {
+					label: "Total",
+					columns: { qty: "sum", price: "max" },
+				},
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should format summary values with the column formatter", () => {
+			const formatter = new TableFormatter(orderSource, {
+				columns: {
+					price: {
+						alignment: "right",
+						formatter: (val) => `$${Number(val).toFixed(2)}`,
+					},
+				},
+				summary: { columns: { price: "avg", item: "count" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[lines.length - 2]).toBe("│ 3     │     │ $1.50 │");
+		});
+
+		it("should aggregate all rows unless the scope is the page", () => {
+			const config = { rowLimit: 1, columns: {} };
+			const all = new TableFormatter(orderSource, {
+				...config,
+				summary: { columns: { qty: "sum" } },
+			});
+			const page = new TableFormatter(orderSource, {
+				...config,
+				summary: { scope: "page", columns: { qty: "sum" } },
+			});
+			expect(all.render().split("\n")[5]).toBe("│       │ 10  │       │");
+			expect(page.render().split("\n")[5]).toBe("│       │ 3   │       │");
+		});
+
+		it("should widen columns to fit summary values", () => {
+			const formatter = new TableFormatter(orderSource, {
+				summary: {
+					columns: { qty: () => "lots of apples" },
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe("│ item  │ qty            │ price │");
+		});
+
+		it("should style the summary row with the summary theme", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(orderSource, {
+				theme: { summary: { color: "yellow" } },
+				summary: { columns: { qty: "sum" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[lines.length - 2]).toContain(
+				"\u001b[33m\u001b[1m 10  \u001b[22m\u001b[39m",
+			);
+		});
+	});
+
+	describe("Row Grouping", () => {
+		const sales: JSONObject[] = [
+			{ region: "EU", country: "DE", sales: 10 },
+			{ region: "US", country: "US", sales: 5 },
+			{ region: "EU", country: "FR", sales: 7 },
+			{ region: "EU", country: "DE", sales: 3 },
+			{ region: "US", country: "US", sales: 1 },
+		];
+		const salesSource = new JSONDataSource(sales);
+
+		it("should render group headers and subtotals between the rows", () => {
+			const formatter = new TableFormatter(salesSource, {
+				groupBy: "region",
+				subtotals: { label: "Subtotal", columns: { sales: "sum" } },
+				summary: { label: "Total", columns: { sales: "sum" } },
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should nest groups for multiple groupBy columns", () => {
+			const formatter = new TableFormatter(salesSource, {
+				groupBy: ["region", "country"],
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[3]).toBe("│ region: EU (3 rows)      │");
+			expect(lines[5]).toBe("│   country: DE (2 rows)   │");
+			expect(lines[7]).toBe("│ EU     │ DE      │ 10    │");
+			expect(lines[8]).toBe("│ EU     │ DE      │ 3     │");
+		});
+
+		it("should paginate over the grouped rows and repeat the open group's header", () => {
+			const formatter = new TableFormatter(salesSource, {
+				groupBy: "region",
+				rowOffset: 2,
+				rowLimit: 2,
+				subtotals: { columns: { sales: "sum" } },
+			});
+			expect(formatter.render().split("\n")).toEqual([
+				"┌────────┬─────────┬───────┐",
+				"│ region │ country │ sales │",
+				"├────────┴─────────┴───────┤",
+				"│ region: EU (3 rows)      │",
+				"├────────┬─────────┬───────┤",
+				"│ EU     │ DE      │ 3     │",
+				"├────────┼─────────┼───────┤",
+				"│        │         │ 20    │",
+				"├────────┴─────────┴───────┤",
+				"│ region: US (2 rows)      │",
+				"├────────┬─────────┬───────┤",
+				"│ US     │ US      │ 5     │",
+				"└────────┴─────────┴───────┘",
+			]);
+		});
+
+		it("should restart alternating rows inside each group", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(salesSource, {
+				groupBy: "region",
+				alternatingRows: true,
+				theme: { group: {}, alternatingCell: { color: "red" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[5]).not.toContain("\u001b[31m");
+			expect(lines[6]).toContain("\u001b[31m");
+			expect(lines[7]).not.toContain("\u001b[31m");
+			expect(lines[11]).not.toContain("\u001b[31m");
+			expect(lines[12]).toContain("\u001b[31m");
+		});
+
+		it("should use a custom group label", () => {
+			const formatter = new TableFormatter(salesSource, {
+				groupBy: "region",
+				groupLabel: (group) => `${group.value} / ${group.rowCount}`,
+			});
+			expect(formatter.render().split("\n")[3]).toBe(
+				"│ EU / 3                   │",
+			);
+		});
+
+		it("should throw for an unknown groupBy column", () => {
+			expect(
+				() => new TableFormatter(salesSource, { groupBy: "continent" }),
+			).toThrow('Unknown columns in table config: "continent" (groupBy)');
+		});
+	});
+
+	describe("Sorting", () => {
+		const products: JSONObject[] = [
+			{ name: "Bolt", price: 0.5 },
+			{ name: "Anvil", price: null },
+			{ name: "Crate", price: 12 },
+		];
+		const productSource = new JSONDataSource(products);
+
+		it("should sort rows and mark the sorted column's header", () => {
+			const formatter = new TableFormatter(productSource, {
+				sort: [{ column: "price", direction: "desc" }],
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should sort before slicing rows", () => {
+			const formatter = new TableFormatter(productSource, {
+				sort: [{ column: "name" }],
+				rowLimit: 1,
+			});
+			expect(formatter.render().split("\n")[3]).toBe("│ Anvil  │       │");
+		});
+
+		it("should support custom or disabled indicators", () => {
+			const custom = new TableFormatter(productSource, {
+				sort: [{ column: "name" }],
+				sortIndicators: { asc: "(a-z)", desc: "(z-a)" },
+			});
+			const disabled = new TableFormatter(productSource, {
+				sort: [{ column: "name" }],
+				sortIndicators: false,
+			});
+			expect(custom.render().split("\n")[1]).toContain("name (a-z)");
+			expect(disabled.render().split("\n")[1]).toBe("│ name  │ price │");
+		});
+
+		it("should keep row numbers pointing at source rows", () => {
+			const formatter = new TableFormatter(productSource, {
+				rowNumbers: true,
+				sort: [{ column: "name" }],
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[3]).toMatch(/^│ 2 │ Anvil/);
+			expect(lines[4]).toMatch(/^│ 1 │ Bolt/);
+		});
+	});
+
+	describe("Filtering", () => {
+		const people: JSONObject[] = Array.from({ length: 10 }, (_, i) => ({
+			name: `Person ${i}`,
+			age: 20 + i * 5,
+		}));
+		const peopleSource = new JSONDataSource(people);
+
+		it("should only render matching rows", () => {
+			const formatter = new TableFormatter(peopleSource, {
+				filter: { column: "age", op: "gt", value: 60 },
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should report matched and total rows to the footer", () => {
+			let counts = "";
+			const formatter = new TableFormatter(peopleSource, {
+				filter: (row) => Number(row.age) >= 40,
+				rowLimit: 2,
+				footer: (info) => {
+					counts = `showing ${info.displayedRows} of ${info.matchedRows} matches (${info.totalRows} total)`;
+					return counts;
+				},
+			});
+			formatter.render();
+			expect(counts).toBe("showing 2 of 6 matches (10 total)");
+		});
+
+		it("should number filtered rows by their source index", () => {
+			const formatter = new TableFormatter(peopleSource, {
+				rowNumbers: true,
+				filter: { column: "name", op: "regex", value: "[05]$" },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[3]).toMatch(/^│ {2}1 │ Person 0/);
+			expect(lines[4]).toMatch(/^│ {2}6 │ Person 5/);
+		});
+	});
+
+	describe("Column Selection", () => {
+		const tickets: JSONObject[] = [
+			{ id: 7, title: "Login fails", status: "open", owner: "kim" },
+			{ id: 8, title: "Typo", status: "closed", owner: "lee" },
+		];
+		const ticketSource = new JSONDataSource(tickets);
+
+		it("should show only the listed columns, in order", () => {
+			const formatter = new TableFormatter(ticketSource, {
+				columnOrder: ["status", "title"],
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should hide columns but keep them readable", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(ticketSource, {
+				hiddenColumns: ["id", "status"],
+				rowStyle: (row) =>
+					row.status === "closed" ? { color: "gray" } : undefined,
+				columns: {
+					title: {
+						formatter: (value, _, row) => `#${row.id} ${value}`,
+						cellStyle: (_, row) =>
+							row.owner === "kim" ? { bold: true } : undefined,
+					},
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).not.toContain("status");
+			expect(lines[3]).toContain("\u001b[1m #7 Login fails \u001b[22m");
+			expect(lines[4]).toContain("\u001b[90m #8 Typo");
+		});
+
+		it("should report config keys that name unknown columns", () => {
+			expect(
+				() =>
+					new TableFormatter(ticketSource, {
+						columnOrder: ["id", "titel"],
+						hiddenColumns: ["owner"],
+						columns: { stauts: { alignment: "right" } },
+					}),
+			).toThrow(
+				'Unknown columns in table config: "stauts" (columns), "titel" (columnOrder)',
+			);
+		});
+
+		it("should report unknown columns in sort, filter and tree options alike", () => {
+			expect(
+				() =>
+					new TableFormatter(ticketSource, {
+						sort: [{ column: "priority" }],
+						filter: { column: "state", op: "eq", value: "open" },
+						tree: { column: "parent" },
+					}),
+			).toThrow(
+				'Unknown columns in table config: "priority" (sort), "state" (filter), "parent" (tree.column)',
+			);
+		});
+
+		it("should accept references to computed columns", () => {
+			const formatter = new TableFormatter(ticketSource, {
+				computed: { code: { value: (row) => `T-${row.id}` } },
+				sort: [{ column: "code", direction: "desc" }],
+			});
+			expect(formatter.render()).toContain("T-");
+		});
+	});
+
+	describe("Computed Columns", () => {
+		const lines: JSONObject[] = [
+			{ item: "Pen", price: 3, cost: 1 },
+			{ item: "Ink", price: 10, cost: 6 },
+			{ item: "Pad", price: 4, cost: 3 },
+		];
+		const lineSource = new JSONDataSource(lines);
+		const computed = {
+			margin: {
+				after: "price",
+				value: (row: JSONObject) => Number(row.price) - Number(row.cost),
+			},
+		};
+
+		it("should render computed columns like real ones", () => {
+			const formatter = new TableFormatter(lineSource, {
+				computed,
+				sort: [{ column: "margin", direction: "desc" }],
+				columns: {
+					margin: { header: "Margin", alignment: "right" },
+				},
+				summary: { label: "Total", columns: { margin: "sum" } },
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should let filters and styles read computed values", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(lineSource, {
+				computed,
+				hiddenColumns: ["cost"],
+				filter: { column: "margin", op: "gt", value: 1 },
+				rowStyle: (row) =>
+					Number(row.margin) > 3 ? { color: "green" } : undefined,
+			});
+			const rendered = formatter.render().split("\n");
+			expect(rendered).toHaveLength(6);
+			expect(rendered[3]).not.toContain("\u001b[32m");
+			expect(rendered[4]).toContain("\u001b[32m");
+		});
+	});
+
+	describe("Flattening", () => {
+		const accounts = [
+			{ id: 1, address: { city: "Oslo", zip: "0150" }, tags: ["a", "b"] },
+			{ id: 2, address: { city: "Rome", zip: "00186" }, tags: [] },
+		] as unknown as JSONObject[];
+		const accountSource = new JSONDataSource(accounts);
+
+		it("should expand nested objects into dotted columns", () => {
+			const formatter = new TableFormatter(accountSource, { flatten: 1 });
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe("│ id │ address.city │ address.zip │ tags │");
+			expect(lines[3]).toBe("│ 1  │ Oslo         │ 0150        │ a, b │");
+		});
+
+		it("should group flattened columns under their parent key", () => {
+			const formatter = new TableFormatter(accountSource, {
+				flatten: { paths: ["address"], arrays: "count", headerGroups: true },
+				sort: [{ column: "address.city", direction: "desc" }],
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+	});
+
+	describe("Tree Rows", () => {
+		const packages = [
+			{
+				name: "app",
+				version: "1.0.0",
+				children: [
+					{
+						name: "chalk",
+						version: "5.3.0",
+						children: [{ name: "ansi-styles", version: "6.2.1" }],
+					},
+					{ name: "string-width", version: "8.0.0" },
+				],
+			},
+			{ name: "tools", version: "0.1.0" },
+		] as unknown as JSONObject[];
+		const packageSource = new JSONDataSource(packages);
+
+		it("should indent the tree column with guides", () => {
+			const formatter = new TableFormatter(packageSource, {
+				tree: { column: "name" },
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should keep the guides when the tree column is truncated", () => {
+			const formatter = new TableFormatter(packageSource, {
+				tree: { column: "name" },
+				maxWidth: 22,
+				columns: { version: { minWidth: 5 } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[5]).toBe("│ │  └─ ans… │ 6.2.1 │");
+		});
+
+		it("should continue wrapped lines under the guides", () => {
+			const formatter = new TableFormatter(packageSource, {
+				tree: { column: "name" },
+				overflow: "wrap",
+				maxWidth: 20,
+				columns: { version: { minWidth: 5 } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[5]).toBe("│ │  └─ an │ 6.2.1 │");
+			expect(lines[6]).toBe("│ │     si │       │");
+		});
+
+		it("should number the tree rows of a filtered view", () => {
+			const view = new FilteredDataSource(
+				packageSource,
+				(row) => row.name === "app",
+			);
+			const formatter = new TableFormatter(view, {
+				tree: { column: "name" },
+				rowNumbers: true,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 7).map((line) => line.slice(0, 5))).toEqual([
+				"│ 1 │",
+				"│ 2 │",
+				"│ 3 │",
+				"│ 4 │",
+			]);
+			expect(lines[7]).toMatch(/^└/);
+		});
+
+		it("should keep the ancestors of filtered rows and redraw the guides", () => {
+			const formatter = new TableFormatter(packageSource, {
+				tree: { column: "name" },
+				filter: { column: "version", op: "regex", value: "^[58]" },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 6)).toEqual([
+				"│ app             │ 1.0.0   │",
+				"│ ├─ chalk        │ 5.3.0   │",
+				"│ └─ string-width │ 8.0.0   │",
+			]);
+		});
+
+		it("should not combine trees with sorting", () => {
+			const formatter = new TableFormatter(packageSource, {
+				tree: { column: "name" },
+				sort: [{ column: "name" }],
+			});
+			expect(() => formatter.render()).toThrow(
+				"A tree table cannot also be sorted or grouped",
+			);
+		});
+	});
+
+	describe("Titles and Captions", () => {
+		const users = new JSONDataSource([
+			{ name: "Ann", age: 31 },
+			{ name: "Bob", age: 4 },
+		]);
+
+		it("should box the title and caption as full-width rows", () => {
+			const formatter = new TableFormatter(users, {
+				title: "Users",
+				caption: "Source: HR",
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should write the title and caption into the border", () => {
+			const formatter = new TableFormatter(users, {
+				title: { text: "Users", placement: "border", alignment: "left" },
+				caption: { text: "HR", placement: "border", alignment: "right" },
+				columns: { name: { minWidth: 10 } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[0]).toBe("┌─ Users ────┬─────┐");
+			expect(lines[lines.length - 1]).toBe("└────────────┴ HR ─┘");
+		});
+
+		it("should place a border title in a row when it would cover a junction", () => {
+			const formatter = new TableFormatter(users, {
+				title: { text: "Users", placement: "border", alignment: "left" },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(0, 4)).toEqual([
+				"┌────────────┐",
+				"│ Users      │",
+				"├──────┬─────┤",
+				"│ name │ age │",
+			]);
+		});
+
+		it("should truncate a border title that does not fit", () => {
+			const formatter = new TableFormatter(users, {
+				title: { text: "Registered users", placement: "border" },
+				columnOrder: ["name"],
+				columns: { name: { minWidth: 10 } },
+			});
+			expect(formatter.render().split("\n")[0]).toBe("┌─ Registe… ─┐");
+		});
+
+		it("should wrap a long title row to the table width", () => {
+			const formatter = new TableFormatter(users, {
+				title: { text: "All registered users", alignment: "left" },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(0, 4)).toEqual([
+				"┌────────────┐",
+				"│ All        │",
+				"│ registered │",
+				"│ users      │",
+			]);
+			expect(lines[4]).toBe("├──────┬─────┤");
+		});
+
+		it("should place the caption below the footer", () => {
+			const formatter = new TableFormatter(users, {
+				footer: (info) => `${info.totalRows} rows`,
+				caption: "Source: HR",
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(-5)).toEqual([
+				"├──────┴─────┤",
+				"│ 2 rows     │",
+				"├────────────┤",
+				"│ Source: HR │",
+				"└────────────┘",
+			]);
+		});
+
+		it("should style the title with the theme", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(users, {
+				title: { text: "Users", style: { color: "red" } },
+				theme: { title: { underline: true } },
+			});
+			const titleLine = formatter.render().split("\n")[1];
+			expect(titleLine).toContain("\u001b[31m");
+			expect(titleLine).toContain("\u001b[4m");
+		});
+	});
+
+	describe("Border Presets", () => {
+		const users = new JSONDataSource([
+			{ name: "Ann", age: 31 },
+			{ name: "Bob", age: 4 },
+		]);
+
+		it("should accept a preset name", () => {
+			const formatter = new TableFormatter(users, { border: "rounded" });
+			const lines = formatter.render().split("\n");
+			expect(lines[0]).toBe("╭──────┬─────╮");
+			expect(lines[lines.length - 1]).toBe("╰──────┴─────╯");
+		});
+
+		it("should render the compact preset without an outer frame", () => {
+			const formatter = new TableFormatter(users, {
+				border: "compact",
+				footer: () => "2 users",
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should render the borderless preset without any lines", () => {
+			const formatter = new TableFormatter(users, {
+				border: "borderless",
+				title: "Users",
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should render the markdown preset as a pipe table", () => {
+			const formatter = new TableFormatter(users, { border: "markdown" });
+			expect(formatter.render().split("\n")).toEqual([
+				"| name | age |",
+				"|------|-----|",
+				"| Ann  | 31  |",
+				"| Bob  | 4   |",
+			]);
+		});
+
+		it("should keep the width when border characters are empty", () => {
+			const formatter = new TableFormatter(users, {
+				border: { vertical: "", cellSeparator: "" },
+				maxWidth: 30,
+				columns: { name: { flexGrow: 1 } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[1]).toBe(" name                     age ");
+			for (const line of lines) {
+				expect(line).toHaveLength(30);
+			}
+		});
+
+		it("should draw the header rule with its own characters", () => {
+			const formatter = new TableFormatter(users, {
+				border: "heavy-header",
+				footer: () => "2 users",
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should frame light inner lines with a heavy border", () => {
+			const formatter = new TableFormatter(users, {
+				border: "heavy-frame",
+				title: "Users",
+			});
+			expect(formatter.render().split("\n").slice(0, 5)).toEqual([
+				"┏━━━━━━━━━━━━┓",
+				"┃   Users    ┃",
+				"┠──────┬─────┨",
+				"┃ name │ age ┃",
+				"┠──────┼─────┨",
+			]);
+		});
+
+		it("should reject rule characters that do not connect", () => {
+			expect(
+				() =>
+					new TableFormatter(users, {
+						border: { headerRule: { horizontal: "━" } },
+					}),
+			).toThrow('Border character "├" at headerRule.left does not connect');
+		});
+
+		it("should render flat border characters as given", () => {
+			const formatter = new TableFormatter(users, {
+				border: {
+					topLeft: "╒",
+					topRight: "╕",
+					topSeparator: "╤",
+				},
+			});
+			expect(formatter.render().split("\n")[0]).toBe("╒──────╤─────╕");
+		});
+
+		it("should reject an unknown preset", () => {
+			expect(
+				() =>
+					new TableFormatter(users, {
+						border: "fancy" as unknown as TableConfig["border"],
+					}),
+			).toThrow('Unknown border preset "fancy"');
+		});
+	});
+
+	describe("Row Separators", () => {
+		const readings = new JSONDataSource(
+			Array.from({ length: 5 }, (_, i) => ({
+				day: `2024-01-0${1 + Math.floor(i / 2)}`,
+				value: i,
+			})),
+		);
+
+		it("should draw a rule between every row", () => {
+			const formatter = new TableFormatter(readings, {
+				rowSeparator: "all",
+				rowLimit: 3,
+			});
+			expect(formatter.render()).toMatchSnapshot();
+		});
+
+		it("should count every N rows from the first row across pages", () => {
+			const formatter = new TableFormatter(readings, {
+				rowSeparator: { every: 2 },
+				rowOffset: 1,
+				rowLimit: 3,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 7)).toEqual([
+				"│ 2024-01-01 │ 1     │",
+				"├────────────┼───────┤",
+				"│ 2024-01-02 │ 2     │",
+				"│ 2024-01-02 │ 3     │",
+			]);
+		});
+
+		it("should draw a rule where the predicate holds", () => {
+			const formatter = new TableFormatter(readings, {
+				rowSeparator: (prev, next) => prev.day !== next.day,
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.filter((line) => line.startsWith("├"))).toHaveLength(3);
+			expect(lines[5]).toBe("├────────────┼───────┤");
+		});
+
+		it("should draw a dotted rule when asked to", () => {
+			const formatter = new TableFormatter(readings, {
+				rowSeparator: { dotted: true },
+				rowLimit: 2,
+			});
+			expect(formatter.render().split("\n")[4]).toBe("├┈┈┈┈┈┈┈┈┈┈┈┈┼┈┈┈┈┈┈┈┤");
+		});
+
+		it("should reject a count that is not a positive integer", () => {
+			const formatter = new TableFormatter(readings, {
+				rowSeparator: { every: 0 },
+			});
+			expect(() => formatter.render()).toThrow(
+				"rowSeparator.every must be a positive integer, got 0",
+			);
+		});
+	});
+
+	describe("Decimal Alignment", () => {
+		const amounts = new JSONDataSource([
+			{ amount: 2.71875, price: 1234.5 },
+			{ amount: 42, price: 7 },
+			{ amount: -0.5, price: 12.25 },
+		]);
+		const config: TableConfig = {
+			columns: {
+				amount: { alignment: "decimal" },
+				price: {
+					alignment: "decimal",
+					formatter: (value) => `$${Number(value).toLocaleString("en-US")}`,
+				},
+			},
+		};
+
+		it("should line raw numbers up on their decimal point", () => {
+			const lines = new TableFormatter(amounts, config).render().split("\n");
+			expect([1, 3, 4, 5].map((i) => lines[i].split("│")[1])).toEqual([
+				"   amount ",
+				"  2.71875 ",
+				" 42       ",
+				" -0.5     ",
+			]);
+		});
+
+		it("should line formatter output up as well", () => {
+			const lines = new TableFormatter(amounts, config).render().split("\n");
+			expect(lines.slice(3, 6).map((line) => line.split("│")[2])).toEqual([
+				" $1,234.5  ",
+				"     $7    ",
+				"    $12.25 ",
+			]);
+		});
+
+		it("should line up the summary row", () => {
+			const formatter = new TableFormatter(amounts, {
+				...config,
+				columnOrder: ["amount"],
+				summary: { columns: { amount: "sum" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 8)).toEqual([
+				"│  2.71875 │",
+				"│ 42       │",
+				"│ -0.5     │",
+				"├──────────┤",
+				"│ 44.21875 │",
+			]);
+		});
+
+		it("should right-align and truncate values when the column is too narrow", () => {
+			const formatter = new TableFormatter(amounts, {
+				...config,
+				maxWidth: 20,
+			});
+			const lines = formatter.render().split("\n");
+			for (const line of lines) {
+				expect(line.length).toBeLessThanOrEqual(20);
+			}
+			expect(lines.slice(3, 6)).toEqual([
+				"│ 2.718… │ $1,234… │",
+				"│     42 │      $7 │",
+				"│   -0.5 │  $12.25 │",
+			]);
+		});
+	});
+
+	describe("Auto Formatting", () => {
+		const events = new JSONDataSource([
+			{ name: "deploy", bytes: 1234567, ok: true, at: "2024-03-05T14:07:09Z" },
+			{ name: "backup", bytes: 42, ok: false, at: null },
+		]);
+
+		it("should leave values alone unless enabled", () => {
+			const lines = new TableFormatter(events).render().split("\n");
+			expect(lines[3]).toBe(
+				"│ deploy │ 1234567 │ true  │ 2024-03-05T14:07:09Z │",
+			);
+		});
+
+		it("should format and align values by their inferred type", () => {
+			const lines = new TableFormatter(events, { autoFormat: true })
+				.render()
+				.split("\n");
+			expect(lines.slice(1, 5)).toEqual([
+				"│ name   │     bytes │ ok │ at                  │",
+				"├────────┼───────────┼────┼─────────────────────┤",
+				"│ deploy │ 1,234,567 │ ✓  │ 2024-03-05 14:07:09 │",
+				"│ backup │        42 │ ✗  │ —                   │",
+			]);
+		});
+
+		it("should apply the configured options", () => {
+			const formatter = new TableFormatter(events, {
+				autoFormat: {
+					grouping: false,
+					precision: 1,
+					booleans: { true: "yes", false: "no" },
+					nullText: "NULL",
+					timestampFormat: "DD.MM.YYYY",
+				},
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(3, 5)).toEqual([
+				"│ deploy │ 1234567.0 │ yes │ 05.03.2024 │",
+				"│ backup │      42.0 │ no  │ NULL       │",
+			]);
+		});
+
+		it("should prefer a column's declared type and alignment", () => {
+			const ids = new JSONDataSource([{ id: "12345", code: 7 }]);
+			const formatter = new TableFormatter(ids, {
+				autoFormat: true,
+				columns: { id: { type: "number" }, code: { alignment: "left" } },
+			});
+			expect(formatter.render().split("\n")[3]).toBe("│ 12,345 │ 7    │");
+		});
+
+		it("should not touch columns with a formatter or the row numbers", () => {
+			const sizes = new JSONDataSource(
+				Array.from({ length: 1000 }, (_, i) => ({ bytes: i * 1000 })),
+			);
+			const formatter = new TableFormatter(sizes, {
+				autoFormat: true,
+				rowNumbers: true,
+				rowOffset: 999,
+				columns: { bytes: { formatter: (value) => `${value} B` } },
+			});
+			expect(formatter.render().split("\n")[3]).toBe("│ 1000 │ 999000 B │");
+		});
+
+		it("should take column types from the data source's schema", () => {
+			// Int64 values arrive as strings, and the labels only look like
+			// timestamps.
+			const labels = new ArrowDataSource(
+				tableFromArrays({ id: [1234n], label: ["2024-03-05T14:07:09Z"] }),
+			);
+			const lines = new TableFormatter(labels, { autoFormat: true })
+				.render()
+				.split("\n");
+			expect(lines[3]).toBe("│ 1,234 │ 2024-03-05T14:07:09Z │");
+		});
+
+		it("should dim the null placeholder", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(events, {
+				autoFormat: true,
+				columnOrder: ["at"],
+				theme: { header: {} },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[4]).toBe(`│${chalk.dim(" —".padEnd(21))}│`);
+		});
+
+		it("should keep the row and cell styles of null cells", () => {
+			chalk.level = 1;
+			const formatter = new TableFormatter(events, {
+				autoFormat: true,
+				columnOrder: ["at"],
+				theme: { header: {} },
+				rowStyle: () => ({ color: "red" }),
+				columns: { at: { cellStyle: () => ({ bold: true }) } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines[4]).toBe(`│${chalk.red.bold.dim(" —".padEnd(21))}│`);
+		});
+	});
+
+	describe("Locale Formatting", () => {
+		const sales = new JSONDataSource([
+			{ item: "Pen", price: 1234.5, share: 0.256 },
+			{ item: "Ink", price: 7, share: 0.05 },
+		]);
+		const columns: TableConfig["columns"] = {
+			price: { format: { type: "currency", currency: "EUR" } },
+			share: { format: { type: "percent", digits: 1 } },
+		};
+
+		it("should apply declarative formats and right-align their numbers", () => {
+			const formatter = new TableFormatter(sales, {
+				locale: "en-US",
+				columns,
+				summary: { columns: { price: "sum" } },
+			});
+			const lines = formatter.render().split("\n");
+			expect(lines.slice(1, 8)).toEqual([
+				"│ item │     price │ share │",
+				"├──────┼───────────┼───────┤",
+				"│ Pen  │ €1,234.50 │ 25.6% │",
+				"│ Ink  │     €7.00 │  5.0% │",
+				"├──────┼───────────┼───────┤",
+				"│      │ €1,241.50 │       │",
+				"└──────┴───────────┴───────┘",
+			]);
+		});
+
+		it("should format in the table's locale", () => {
+			const formatter = new TableFormatter(sales, { locale: "de-DE", columns });
+			expect(formatter.render().split("\n")[3]).toBe(
+				"│ Pen  │ 1.234,50\u00a0€ │ 25,6\u00a0% │",
+			);
+		});
+
+		it("should let a formatter take precedence over a format", () => {
+			const formatter = new TableFormatter(sales, {
+				columns: {
+					price: {
+						format: { type: "currency", currency: "EUR" },
+						formatter: (value) => `${value} EUR`,
+					},
+				},
+			});
+			expect(formatter.render().split("\n")[3]).toBe(
+				"│ Pen  │ 1234.5 EUR │ 0.256 │",
+			);
+		});
+
+		it("should take humanized formatters", () => {
+			const files = new JSONDataSource([
+				{ name: "a.log", size: 1536 },
+				{ name: "b.iso", size: 1503238553 },
+			]);
+			const formatter = new TableFormatter(files, {
+				columns: {
+					size: {
+						alignment: "right",
+						formatter: bytesFormatter({ fixedWidth: true }),
+					},
+				},
+			});
+			expect(formatter.render().split("\n").slice(3, 5)).toEqual([
+				"│ a.log │     1.5 KiB │",
+				"│ b.iso │     1.4 GiB │",
+			]);
+		});
+
+		it("should use the locale for auto formatting and decimal alignment", () => {
+			const formatter = new TableFormatter(sales, {
+				locale: "de-DE",
+				autoFormat: true,
+				columns: { price: { alignment: "decimal" } },
+				columnOrder: ["price"],
+			});
+			expect(formatter.render().split("\n").slice(3, 5)).toEqual([
+				"│ 1.234,5 │",
+				"│     7   │",
+			]);
+		});
+	});
 });
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { TreeDataSource } from "../TreeDataSource";
+import { JSONDataSource, type JSONObject } from "../JSONDataSource";
+
+describe("TreeDataSource", () => {
+	const nested = [
+		{
+			name: "app",
+			children: [
+				{ name: "chalk", children: [{ name: "ansi-styles" }] },
+				{ name: "string-width" },
+			],
+		},
+		{ name: "tools" },
+	] as unknown as JSONObject[];
+
+	it("should flatten nested children depth first", () => {
+		const view = new TreeDataSource(new JSONDataSource(nested));
+		expect(view.getColumnNames()).toEqual(["name"]);
+		expect(view.getRowCount()).toBe(5);
+		expect(Array.from({ length: 5 }, (_, i) => view.getArrayRow(i)[0])).toEqual(
+			["app", "chalk", "ansi-styles", "string-width", "tools"],
+		);
+		expect(view.getObjectRow(2)).toEqual({ name: "ansi-styles" });
+	});
+
+	it("should describe each row's place in the tree", () => {
+		const view = new TreeDataSource(new JSONDataSource(nested));
+		expect(view.getNodeInfo(0)).toEqual({
+			depth: 0,
+			isLast: false,
+			ancestorsLast: [],
+			hasChildren: true,
+		});
+		expect(view.getNodeInfo(2)).toEqual({
+			depth: 2,
+			isLast: true,
+			ancestorsLast: [false, false],
+			hasChildren: false,
+		});
+		expect(view.getNodeInfo(3).isLast).toBe(true);
+	});
+
+	it("should build the tree from id and parent id columns", () => {
+		const view = new TreeDataSource(
+			new JSONDataSource([
+				{ id: 3, boss: 2, name: "Engineer" },
+				{ id: 1, boss: null, name: "CEO" },
+				{ id: 2, boss: 1, name: "CTO" },
+				{ id: 4, boss: 1, name: "CFO" },
+			]),
+			{ idKey: "id", parentKey: "boss" },
+		);
+		expect(Array.from({ length: 4 }, (_, i) => view.getArrayRow(i)[2])).toEqual(
+			["CEO", "CTO", "Engineer", "CFO"],
+		);
+		expect(view.getNodeInfo(2).depth).toBe(2);
+	});
+
+	it("should reject parent ids that form a cycle", () => {
+		const source = new JSONDataSource([
+			{ id: 1, parentId: 2 },
+			{ id: 2, parentId: 1 },
+		]);
+		expect(() => new TreeDataSource(source, { idKey: "id" })).toThrow(
+			"Tree rows form a cycle through their parent ids",
+		);
+	});
+});
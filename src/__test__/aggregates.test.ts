@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { computeAggregate } from "../aggregates";
+
+describe("computeAggregate", () => {
+	const values = [3, "4", null, 1, "n/a"];
+
+	it("should sum and average numbers and numeric strings", () => {
+		expect(computeAggregate("sum", values)).toBe(8);
+		expect(computeAggregate("avg", values)).toBeCloseTo(8 / 3);
+	});
+
+	it("should return null for the average of no numbers", () => {
+		expect(computeAggregate("avg", [null, "n/a"])).toBeNull();
+		expect(computeAggregate("sum", [])).toBe(0);
+	});
+
+	it("should compare numerically, falling back to strings", () => {
+		expect(computeAggregate("min", values)).toBe(1);
+		expect(computeAggregate("max", values)).toBe(4);
+		expect(computeAggregate("min", ["pear", "apple", null])).toBe("apple");
+		expect(computeAggregate("max", ["pear", "apple", null])).toBe("pear");
+		expect(computeAggregate("max", [null])).toBeNull();
+	});
+
+	it("should count non-null and distinct values", () => {
+		expect(computeAggregate("count", values)).toBe(4);
+		expect(computeAggregate("countDistinct", ["a", "b", "a", null])).toBe(2);
+		expect(
+			computeAggregate("countDistinct", [{ k: 1 }, { k: 1 }, { k: 2 }]),
+		).toBe(2);
+	});
+
+	it("should call custom aggregate functions with the raw values", () => {
+		expect(computeAggregate((vals) => vals.length, values)).toBe(5);
+	});
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+	getDottedLine,
+	hasRuleOverrides,
+	resolveRules,
+	validateBorder,
+} from "../borders";
+import {
+	BORDER_PRESETS,
+	HEAVY_HEADER_BORDER,
+	SINGLE_LINE_BORDER,
+} from "../TableFormatter";
+
+describe("resolveRules", () => {
+	it("should fall back to the shared border characters", () => {
+		const rules = resolveRules(SINGLE_LINE_BORDER);
+		expect(rules.top).toEqual({
+			horizontal: "─",
+			left: "┌",
+			right: "┐",
+			cross: "┼",
+			down: "┬",
+			up: "┴",
+		});
+		expect(rules.footer.left).toBe("├");
+		expect(rules.bottom.up).toBe("┴");
+	});
+
+	it("should apply the overrides of each rule", () => {
+		const rules = resolveRules(HEAVY_HEADER_BORDER);
+		expect(rules.header.cross).toBe("┿");
+		expect(rules.row.cross).toBe("┼");
+	});
+});
+
+describe("validateBorder", () => {
+	it("should accept every preset", () => {
+		for (const preset of Object.values(BORDER_PRESETS)) {
+			expect(() => validateBorder(preset)).not.toThrow();
+		}
+	});
+
+	it("should reject a junction whose weight differs from its line", () => {
+		expect(() =>
+			validateBorder({
+				...SINGLE_LINE_BORDER,
+				headerRule: { horizontal: "━" },
+			}),
+		).toThrow(
+			'Border character "├" at headerRule.left does not connect to the lines around it',
+		);
+	});
+
+	it("should reject a junction with an arm that meets no line", () => {
+		expect(() =>
+			validateBorder({ ...SINGLE_LINE_BORDER, topSeparator: "┼" }),
+		).toThrow('Border character "┼" at top.down does not connect');
+	});
+
+	it("should not check characters that are never drawn", () => {
+		expect(() =>
+			validateBorder({ ...SINGLE_LINE_BORDER, vertical: "", topLeft: "╋" }),
+		).not.toThrow();
+	});
+
+	it("should not check characters other than box drawing", () => {
+		expect(() =>
+			validateBorder({ ...SINGLE_LINE_BORDER, middleSeparator: "+" }),
+		).not.toThrow();
+	});
+});
+
+describe("hasRuleOverrides", () => {
+	it("should only detect the per-rule keys and the header wall", () => {
+		expect(hasRuleOverrides(SINGLE_LINE_BORDER)).toBe(false);
+		expect(hasRuleOverrides({ topLeft: "╒" })).toBe(false);
+		expect(hasRuleOverrides({ bottom: { horizontal: "═" } })).toBe(true);
+		expect(hasRuleOverrides({ headerCellSeparator: "┃" })).toBe(true);
+	});
+});
+
+describe("getDottedLine", () => {
+	it("should keep the weight of the line", () => {
+		expect(getDottedLine("─")).toBe("┈");
+		expect(getDottedLine("━")).toBe("┉");
+	});
+
+	it("should leave lines without a dotted variant alone", () => {
+		expect(getDottedLine("═")).toBe("═");
+		expect(getDottedLine("-")).toBe("-");
+	});
+});
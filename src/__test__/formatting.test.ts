@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import {
+	formatNumber,
+	formatTimestamp,
+	formatWithIntl,
+	getNumberSymbols,
+	inferColumnType,
+	toNumber,
+} from "../formatting";
+import type { CellFormat } from "../types";
+
+describe("inferColumnType", () => {
+	it("should infer the type shared by all non-null values", () => {
+		expect(inferColumnType([1, null, 2.5])).toBe("number");
+		expect(inferColumnType([true, false])).toBe("boolean");
+		expect(inferColumnType(["2024-01-05T10:00:00Z", "2024-01-06 12:30"])).toBe(
+			"timestamp",
+		);
+		expect(inferColumnType([{ a: 1 }, { b: "c" }])).toBe("object");
+	});
+
+	it("should fall back to string for mixed values", () => {
+		expect(inferColumnType([1, "two"])).toBe("string");
+		expect(inferColumnType(["2024-01-05T10:00:00Z", "soon"])).toBe("string");
+	});
+
+	it("should not treat plain dates as timestamps", () => {
+		expect(inferColumnType(["2024-01-05"])).toBe("string");
+	});
+
+	it("should leave a column of nulls without a type", () => {
+		expect(inferColumnType([null, null])).toBeUndefined();
+		expect(inferColumnType([])).toBeUndefined();
+	});
+});
+
+describe("toNumber", () => {
+	it("should read numbers and numeric strings", () => {
+		expect(toNumber(42)).toBe(42);
+		expect(toNumber("-1.5")).toBe(-1.5);
+		expect(toNumber("9007199254740993")).toBe(9007199254740992);
+		expect(toNumber("1e3")).toBe(1000);
+	});
+
+	it("should leave out everything else", () => {
+		expect(toNumber(Number.NaN)).toBeUndefined();
+		expect(toNumber("")).toBeUndefined();
+		expect(toNumber("12 MB")).toBeUndefined();
+		expect(toNumber(null)).toBeUndefined();
+		expect(toNumber(true)).toBeUndefined();
+	});
+});
+
+describe("formatNumber", () => {
+	it("should group thousands", () => {
+		expect(formatNumber(1234567.891, true)).toBe("1,234,567.891");
+		expect(formatNumber(-1234, true)).toBe("-1,234");
+		expect(formatNumber(999, true)).toBe("999");
+		expect(formatNumber(1234, false)).toBe("1234");
+	});
+
+	it("should apply a fixed precision", () => {
+		expect(formatNumber(1.23456, true, 2)).toBe("1.23");
+		expect(formatNumber(1500, true, 0)).toBe("1,500");
+		expect(formatNumber(7, false, 1)).toBe("7.0");
+	});
+
+	it("should keep large integer strings exact", () => {
+		expect(formatNumber("9007199254740993", true, 2)).toBe(
+			"9,007,199,254,740,993.00",
+		);
+	});
+
+	it("should use the given number symbols", () => {
+		const symbols = getNumberSymbols("de-DE");
+		expect(symbols).toEqual({ group: ".", decimal: "," });
+		expect(formatNumber(1234567.5, true, undefined, symbols)).toBe(
+			"1.234.567,5",
+		);
+	});
+
+	it("should leave exponents and non-finite values alone", () => {
+		expect(formatNumber(1e21, true)).toBe("1e+21");
+		expect(formatNumber(Number.POSITIVE_INFINITY, true)).toBe("Infinity");
+	});
+});
+
+describe("formatTimestamp", () => {
+	it("should format a timestamp through the pattern, in UTC", () => {
+		expect(
+			formatTimestamp("2024-03-05T14:07:09.042Z", "DD/MM/YYYY HH:mm:ss.SSS"),
+		).toBe("05/03/2024 14:07:09.042");
+		expect(
+			formatTimestamp("2024-03-05T23:30:00-02:00", "YYYY-MM-DD HH:mm"),
+		).toBe("2024-03-06 01:30");
+	});
+
+	it("should keep the time of timestamps without an offset", () => {
+		expect(formatTimestamp("2024-03-05 08:00", "HH:mm:ss")).toBe("08:00:00");
+	});
+
+	it("should reject text that isn't a valid timestamp", () => {
+		expect(formatTimestamp("yesterday", "YYYY")).toBeUndefined();
+		expect(formatTimestamp("2024-13-45T10:00Z", "YYYY")).toBeUndefined();
+	});
+});
+
+describe("formatWithIntl", () => {
+	it("should format numbers, currencies and percentages", () => {
+		expect(formatWithIntl(1234.5, { type: "number" }, "en-US")).toBe("1,234.5");
+		expect(
+			formatWithIntl(1234.5, { type: "number", digits: 0, grouping: false }),
+		).toBe("1235");
+		expect(
+			formatWithIntl(1234.5, { type: "currency", currency: "EUR" }, "en-US"),
+		).toBe("€1,234.50");
+		expect(
+			formatWithIntl(
+				1234.5,
+				{ type: "currency", currency: "EUR", display: "code", digits: 0 },
+				"en-US",
+			),
+		).toBe("EUR\u00a01,235");
+		expect(formatWithIntl(0.256, { type: "percent", digits: 1 }, "en-US")).toBe(
+			"25.6%",
+		);
+	});
+
+	it("should follow the locale", () => {
+		expect(
+			formatWithIntl(1234.5, { type: "currency", currency: "EUR" }, "de-DE"),
+		).toBe("1.234,50\u00a0€");
+	});
+
+	it("should keep large integer strings exact", () => {
+		expect(
+			formatWithIntl("9007199254740993", { type: "number" }, "en-US"),
+		).toBe("9,007,199,254,740,993");
+	});
+
+	it("should format epoch milliseconds and ISO strings as dates", () => {
+		const format: CellFormat = {
+			type: "date",
+			dateStyle: "medium",
+			timeStyle: "short",
+			timeZone: "UTC",
+		};
+		expect(formatWithIntl(Date.UTC(2024, 2, 5, 14, 7), format, "en-GB")).toBe(
+			"5 Mar 2024, 14:07",
+		);
+		expect(formatWithIntl("2024-03-05 14:07", format, "en-GB")).toBe(
+			"5 Mar 2024, 14:07",
+		);
+		expect(
+			formatWithIntl("2024-03-05", { type: "date", timeZone: "UTC" }, "en-US"),
+		).toBe("Mar 5, 2024");
+	});
+
+	it("should leave values the format doesn't apply to", () => {
+		expect(formatWithIntl(null, { type: "number" })).toBeUndefined();
+		expect(formatWithIntl("n/a", { type: "percent" })).toBeUndefined();
+		expect(formatWithIntl("soon", { type: "date" })).toBeUndefined();
+		expect(formatWithIntl(true, { type: "date" })).toBeUndefined();
+	});
+
+	it("should reject unknown format types", () => {
+		expect(() =>
+			formatWithIntl(1, { type: "roman" } as unknown as CellFormat),
+		).toThrow('Unknown format type "roman"');
+	});
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+	bytesFormatter,
+	countFormatter,
+	durationFormatter,
+	ratioFormatter,
+	relativeTimeFormatter,
+} from "../humanize";
+
+describe("bytesFormatter", () => {
+	it("should scale sizes to binary units", () => {
+		const format = bytesFormatter();
+		expect(format(512)).toBe("512 B");
+		expect(format(1536)).toBe("1.5 KiB");
+		expect(format(1503238553)).toBe("1.4 GiB");
+		expect(format("2048")).toBe("2.0 KiB");
+	});
+
+	it("should move to the next unit when rounding reaches it", () => {
+		expect(bytesFormatter()(1024 ** 2 - 1)).toBe("1.0 MiB");
+		expect(bytesFormatter({ units: "decimal" })(999_960)).toBe("1.0 MB");
+	});
+
+	it("should apply the precision", () => {
+		expect(bytesFormatter({ precision: 2 })(1536)).toBe("1.50 KiB");
+		expect(bytesFormatter({ units: "decimal", precision: 0 })(1500)).toBe(
+			"2 kB",
+		);
+	});
+
+	it("should pad every size to the same width", () => {
+		const format = bytesFormatter({ fixedWidth: true });
+		const sizes = [0, 1023, 1536, 1503238553].map(format);
+		expect(sizes).toEqual([
+			"      0 B  ",
+			"   1023 B  ",
+			"    1.5 KiB",
+			"    1.4 GiB",
+		]);
+	});
+
+	it("should show values that aren't numbers as they are", () => {
+		const format = bytesFormatter();
+		expect(format(null)).toBe("");
+		expect(format("n/a")).toBe("n/a");
+	});
+});
+
+describe("countFormatter", () => {
+	it("should add SI suffixes", () => {
+		const format = countFormatter();
+		expect(format(999)).toBe("999");
+		expect(format(12345)).toBe("12.3k");
+		expect(format(-4_000_000)).toBe("-4.0M");
+		expect(format(999_960)).toBe("1.0M");
+	});
+
+	it("should pad every count to the same width", () => {
+		const format = countFormatter({ fixedWidth: true, precision: 0 });
+		expect([7, 12345, -999_000_000].map(format)).toEqual([
+			"    7",
+			"  12k",
+			"-999M",
+		]);
+	});
+});
+
+describe("ratioFormatter", () => {
+	it("should show ratios as percentages or multipliers", () => {
+		expect(ratioFormatter()(0.256)).toBe("25.6%");
+		expect(ratioFormatter({ precision: 0 })(1)).toBe("100%");
+		expect(ratioFormatter({ style: "times", precision: 2 })(1.5)).toBe("1.50×");
+	});
+
+	it("should pad every ratio to the same width", () => {
+		const format = ratioFormatter({ fixedWidth: true });
+		expect([0.05, 1, -0.5].map(format)).toEqual([
+			"   5.0%",
+			" 100.0%",
+			" -50.0%",
+		]);
+	});
+});
+
+describe("durationFormatter", () => {
+	it("should show the largest units", () => {
+		const format = durationFormatter();
+		expect(format(192_000)).toBe("3m 12s");
+		expect(format(90_061_001)).toBe("1d 1h");
+		expect(format(450)).toBe("450ms");
+		expect(format(0)).toBe("0s");
+		expect(format(-5000)).toBe("-5s");
+	});
+
+	it("should drop zeros at the end but keep those in between", () => {
+		const format = durationFormatter({ parts: 3 });
+		expect(format(3_600_000)).toBe("1h");
+		expect(format(3_605_000)).toBe("1h 0m 5s");
+	});
+
+	it("should read values in seconds", () => {
+		expect(durationFormatter({ unit: "s" })(1.5)).toBe("1s 500ms");
+	});
+
+	it("should pad every duration to the same width", () => {
+		const format = durationFormatter({ fixedWidth: true });
+		expect([0, 192_000, 59_999].map(format)).toEqual([
+			"        0s",
+			"    3m 12s",
+			" 59s 999ms",
+		]);
+	});
+
+	it("should reject a number of parts that isn't a positive integer", () => {
+		expect(() => durationFormatter({ parts: 0 })).toThrow(
+			"Duration parts must be a positive integer, got 0",
+		);
+	});
+});
+
+describe("relativeTimeFormatter", () => {
+	const now = () => Date.UTC(2024, 2, 5, 12);
+
+	it("should describe times relative to the injected now", () => {
+		const format = relativeTimeFormatter({ now, locale: "en-US" });
+		expect(format(Date.UTC(2024, 2, 5, 11, 55))).toBe("5 minutes ago");
+		expect(format("2024-03-05T14:30:00Z")).toBe("in 2 hours");
+		expect(format(Date.UTC(2024, 1, 20))).toBe("2 weeks ago");
+		expect(format(Date.UTC(2022, 0, 1))).toBe("2 years ago");
+	});
+
+	it("should allow phrases such as yesterday", () => {
+		const format = relativeTimeFormatter({
+			now: () => new Date(now()),
+			locale: "en-US",
+			numeric: "auto",
+		});
+		expect(format("2024-03-04T12:00:00Z")).toBe("yesterday");
+		expect(format(now())).toBe("now");
+	});
+
+	it("should follow the locale", () => {
+		const format = relativeTimeFormatter({ now, locale: "de-DE" });
+		expect(format(Date.UTC(2024, 2, 5, 11, 55))).toBe("vor 5 Minuten");
+	});
+
+	it("should pad every time to the same width", () => {
+		const format = relativeTimeFormatter({
+			now,
+			locale: "en-US",
+			fixedWidth: true,
+		});
+		const times = [Date.UTC(2024, 2, 5, 11, 55), Date.UTC(2024, 2, 4)].map(
+			format,
+		);
+		expect(times).toEqual(["5 minutes ago ", "1 day ago     "]);
+	});
+
+	it("should show values that aren't times as they are", () => {
+		const format = relativeTimeFormatter({ now });
+		expect(format(null)).toBe("");
+		expect(format("soon")).toBe("soon");
+	});
+});
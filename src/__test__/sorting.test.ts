@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { tableFromArrays } from "apache-arrow";
+import { compareValues, sortRowIndices } from "../sorting";
+import { JSONDataSource } from "../JSONDataSource";
+import { ArrowDataSource } from "../ArrowDataSource";
+
+describe("compareValues", () => {
+	it("should compare numbers and numeric strings numerically", () => {
+		expect(compareValues(2, 10)).toBeLessThan(0);
+		expect(compareValues("10", "9")).toBeGreaterThan(0);
+		expect(compareValues("-5", "3")).toBeLessThan(0);
+		expect(compareValues("9007199254740993", "9007199254740992")).toBe(1);
+		expect(compareValues(1.5, "2")).toBeLessThan(0);
+	});
+
+	it("should compare strings that only Number() would parse as text", () => {
+		expect(compareValues("0x10", "9")).toBeLessThan(0);
+		expect(compareValues("Infinity", "5")).toBeGreaterThan(0);
+		expect(compareValues(" 20 ", "3")).toBeLessThan(0);
+	});
+
+	it("should compare strings with locale collation", () => {
+		expect(compareValues("apple", "Banana")).toBeLessThan(0);
+		expect(compareValues("item 2", "item 10")).toBeLessThan(0);
+	});
+
+	it("should compare ISO dates chronologically", () => {
+		expect(
+			compareValues("2024-01-02T00:00:00Z", "2024-01-01T23:00:00-05:00"),
+		).toBeLessThan(0);
+		expect(compareValues("2023-12-31", "2024-01-01")).toBeLessThan(0);
+	});
+
+	it("should put false before true", () => {
+		expect(compareValues(false, true)).toBeLessThan(0);
+		expect(compareValues(true, true)).toBe(0);
+	});
+});
+
+describe("sortRowIndices", () => {
+	const source = new JSONDataSource([
+		{ name: "b", price: 2 },
+		{ name: "a", price: null },
+		{ name: "c", price: 2 },
+		{ name: "d", price: 1 },
+	]);
+
+	it("should sort by several keys and keep ties in source order", () => {
+		expect(sortRowIndices(source, [0, 1, 2, 3], [{ column: "price" }])).toEqual(
+			[3, 0, 2, 1],
+		);
+		expect(
+			sortRowIndices(
+				source,
+				[0, 1, 2, 3],
+				[
+					{ column: "price", direction: "desc", nulls: "first" },
+					{ column: "name", direction: "desc" },
+				],
+			),
+		).toEqual([1, 2, 0, 3]);
+	});
+
+	it("should use a custom comparator", () => {
+		const byLength = (a: unknown, b: unknown) =>
+			String(a).length - String(b).length;
+		const words = new JSONDataSource([
+			{ word: "ccc" },
+			{ word: "a" },
+			{ word: "bb" },
+		]);
+		expect(
+			sortRowIndices(words, [0, 1, 2], [{ column: "word", compare: byLength }]),
+		).toEqual([1, 2, 0]);
+	});
+
+	it("should sort an Arrow table without copying it", () => {
+		const arrowSource = new ArrowDataSource(
+			tableFromArrays({ id: [30n, 4n, 200n] }),
+		);
+		expect(sortRowIndices(arrowSource, [0, 1, 2], [{ column: "id" }])).toEqual([
+			1, 0, 2,
+		]);
+	});
+
+	it("should throw for an unknown column", () => {
+		expect(() => sortRowIndices(source, [0], [{ column: "nope" }])).toThrow(
+			'Unknown sort column "nope"',
+		);
+	});
+});
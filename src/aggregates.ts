@@ -0,0 +1,59 @@
+import { toNumber } from "./formatting";
+import type { Aggregate, CellTypes } from "./types";
+
+/** Gives each value a key, so objects compare by content when counting distinct values. */
+function toKey(value: CellTypes): string {
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** Picks the smallest or largest value, comparing as strings when no value is numeric. */
+function extreme(values: CellTypes[], direction: 1 | -1): CellTypes {
+	const numbers = values
+		.map(toNumber)
+		.filter((n): n is number => n !== undefined);
+	if (numbers.length > 0) {
+		return direction > 0 ? Math.max(...numbers) : Math.min(...numbers);
+	}
+
+	const strings = values.filter((v) => v !== null).map(toKey);
+	if (strings.length === 0) return null;
+	return strings.reduce((best, s) =>
+		s.localeCompare(best) * direction > 0 ? s : best,
+	);
+}
+
+/**
+ * Reduces a column's raw values to a single summary value. Numeric
+ * aggregates skip values that are not numbers; `count` and `countDistinct`
+ * skip nulls.
+ */
+export function computeAggregate(
+	aggregate: Aggregate,
+	values: CellTypes[],
+): CellTypes {
+	if (typeof aggregate === "function") {
+		return aggregate(values);
+	}
+
+	const numbers = values
+		.map(toNumber)
+		.filter((n): n is number => n !== undefined);
+	switch (aggregate) {
+		case "sum":
+			return numbers.reduce((total, n) => total + n, 0);
+		case "avg":
+			return numbers.length > 0
+				? numbers.reduce((total, n) => total + n, 0) / numbers.length
+				: null;
+		case "min":
+			return extreme(values, -1);
+		case "max":
+			return extreme(values, 1);
+		case "count":
+			return values.filter((v) => v !== null).length;
+		case "countDistinct":
+			return new Set(values.filter((v) => v !== null).map(toKey)).size;
+		default:
+			throw new Error(`Unknown aggregate: ${aggregate}`);
+	}
+}
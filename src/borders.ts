@@ -0,0 +1,181 @@
+import type { BorderChars, RuleChars } from "./types";
+
+/** The horizontal rules of a table, from top to bottom. */
+export type RuleKind = "top" | "header" | "row" | "footer" | "bottom";
+
+/** The `BorderChars` key that overrides each rule. */
+const RULE_KEYS = {
+	top: "top",
+	header: "headerRule",
+	row: "rowRule",
+	footer: "footerRule",
+	bottom: "bottom",
+} as const;
+
+/**
+ * Whether a border sets any of the per-rule keys, or a header wall of its
+ * own. Only such borders, and the presets, are checked by `validateBorder`;
+ * flat character sets render as given.
+ */
+export function hasRuleOverrides(border: Partial<BorderChars>): boolean {
+	return [...Object.values(RULE_KEYS), "headerCellSeparator"].some(
+		(key) => border[key as keyof BorderChars] !== undefined,
+	);
+}
+
+// The arms of each box-drawing character as up, down, left and right, each
+// `-` for none or `l`, `h` or `d` for a light, heavy or double line.
+const BOX_ARMS = new Map(
+	`─--ll ━--hh │ll-- ┃hh-- ┄--ll ┅--hh ┆ll-- ┇hh-- ┈--ll ┉--hh
+	┊ll-- ┋hh-- ┌-l-l ┍-l-h ┎-h-l ┏-h-h ┐-ll- ┑-lh- ┒-hl- ┓-hh-
+	└l--l ┕l--h ┖h--l ┗h--h ┘l-l- ┙l-h- ┚h-l- ┛h-h- ├ll-l ┝ll-h
+	┞hl-l ┟lh-l ┠hh-l ┡hl-h ┢lh-h ┣hh-h ┤lll- ┥llh- ┦hll- ┧lhl-
+	┨hhl- ┩hlh- ┪lhh- ┫hhh- ┬-lll ┭-lhl ┮-llh ┯-lhh ┰-hll ┱-hhl
+	┲-hlh ┳-hhh ┴l-ll ┵l-hl ┶l-lh ┷l-hh ┸h-ll ┹h-hl ┺h-lh ┻h-hh
+	┼llll ┽llhl ┾lllh ┿llhh ╀hlll ╁lhll ╂hhll ╃hlhl ╄hllh ╅lhhl
+	╆lhlh ╇hlhh ╈lhhh ╉hhhl ╊hhlh ╋hhhh ╌--ll ╍--hh ╎ll-- ╏hh--
+	═--dd ║dd-- ╒-l-d ╓-d-l ╔-d-d ╕-ld- ╖-dl- ╗-dd- ╘l--d ╙d--l
+	╚d--d ╛l-d- ╜d-l- ╝d-d- ╞ll-d ╟dd-l ╠dd-d ╡lld- ╢ddl- ╣ddd-
+	╤-ldd ╥-dll ╦-ddd ╧l-dd ╨d-ll ╩d-dd ╪lldd ╫ddll ╬dddd ╭-l-l
+	╮-ll- ╯l-l- ╰l--l ╴--l- ╵l--- ╶---l ╷-l-- ╸--h- ╹h--- ╺---h
+	╻-h-- ╼--lh ╽lh-- ╾--hl ╿hl--`
+		.split(/\s+/)
+		.map((entry): [string, string] => [entry[0], entry.slice(1)]),
+);
+
+// Lighter, dotted variants of solid lines.
+const DOTTED_LINES: Record<string, string> = {
+	"─": "┈",
+	"╌": "┈",
+	"┄": "┈",
+	"━": "┉",
+	"╍": "┉",
+	"┅": "┉",
+};
+
+const ARMS = ["up", "down", "left", "right"] as const;
+type Arm = (typeof ARMS)[number];
+
+/**
+ * Fills in the characters of every rule. Rules fall back to the shared keys
+ * of `BorderChars`: the top and bottom borders to their corners and
+ * `horizontal`, the inner rules to `headerLeft`, `headerRight` and the
+ * separators.
+ */
+export function resolveRules(border: BorderChars): Record<RuleKind, RuleChars> {
+	const shared: RuleChars = {
+		horizontal: border.horizontal,
+		left: border.headerLeft,
+		right: border.headerRight,
+		cross: border.middleSeparator,
+		down: border.topSeparator,
+		up: border.bottomSeparator,
+	};
+	return {
+		top: {
+			...shared,
+			left: border.topLeft,
+			right: border.topRight,
+			...border.top,
+		},
+		header: { ...shared, ...border.headerRule },
+		row: { ...shared, ...border.rowRule },
+		footer: { ...shared, ...border.footerRule },
+		bottom: {
+			...shared,
+			left: border.bottomLeft,
+			right: border.bottomRight,
+			...border.bottom,
+		},
+	};
+}
+
+/** The dotted variant of a line character; other characters stay as they are. */
+export function getDottedLine(line: string): string {
+	return DOTTED_LINES[line] ?? line;
+}
+
+/** The wall between header columns; without outer walls, the row separator. */
+export function getHeaderWall(border: BorderChars): string {
+	return (
+		border.headerCellSeparator ?? (border.vertical || border.cellSeparator)
+	);
+}
+
+/**
+ * Checks that the box-drawing characters of every rule connect: each arm of
+ * a corner or junction must meet a line of the same weight, and each line it
+ * meets needs an arm. Characters that are never drawn, because their rule
+ * or wall is empty, and characters other than box drawing, such as ASCII
+ * `+`, aren't checked.
+ */
+export function validateBorder(border: BorderChars): void {
+	const rules = resolveRules(border);
+	const headerWall = getHeaderWall(border);
+	const bodyWall = border.cellSeparator;
+
+	// The column walls each rule meets above and below, and the junctions it draws.
+	const contexts: [RuleKind, string, string, ("cross" | "down" | "up")[]][] = [
+		["top", "", headerWall, ["down"]],
+		["header", headerWall, bodyWall, ["cross", "down", "up"]],
+		["row", bodyWall, bodyWall, ["cross", "down", "up"]],
+		["footer", bodyWall, "", ["up"]],
+		["bottom", bodyWall, "", ["up"]],
+	];
+	for (const [kind, above, below, junctions] of contexts) {
+		const rule = rules[kind];
+		const check = (key: keyof RuleChars, lines: Record<Arm, string>) => {
+			if (!connects(rule[key], lines)) {
+				throw new Error(
+					`Border character "${rule[key]}" at ${RULE_KEYS[kind]}.${key} does not connect to the lines around it`,
+				);
+			}
+		};
+
+		const { horizontal: line } = rule;
+		if (line === "") continue;
+		if (border.vertical !== "") {
+			const outerAbove = kind === "top" ? "" : border.vertical;
+			const outerBelow = kind === "bottom" ? "" : border.vertical;
+			check("left", {
+				up: outerAbove,
+				down: outerBelow,
+				left: "",
+				right: line,
+			});
+			check("right", {
+				up: outerAbove,
+				down: outerBelow,
+				left: line,
+				right: "",
+			});
+		}
+		if (border.cellSeparator === "") continue;
+		for (const junction of junctions) {
+			check(junction, {
+				up: junction === "down" ? "" : above,
+				down: junction === "up" ? "" : below,
+				left: line,
+				right: line,
+			});
+		}
+	}
+}
+
+/**
+ * Whether a character's arms match the lines next to it. Blank lines call
+ * for no arm; lines that aren't box-drawing characters aren't checked.
+ */
+function connects(char: string, lines: Record<Arm, string>): boolean {
+	const arms = BOX_ARMS.get(char);
+	if (!arms) return true;
+	return ARMS.every((arm, i) => {
+		const line = lines[arm];
+		if (line.trim() === "") return arms[i] === "-";
+		const lineArms = BOX_ARMS.get(line);
+		if (!lineArms) return true;
+		// A wall meets the rule with its vertical arm, a rule line with its horizontal one.
+		const weight = arm === "up" || arm === "down" ? lineArms[0] : lineArms[2];
+		return arms[i] === weight;
+	});
+}
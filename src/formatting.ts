@@ -0,0 +1,232 @@
+import type { CellFormat, CellTypes, ColumnType } from "./types";
+
+export const INTEGER = /^-?\d+$/;
+const NUMERIC = /^[-+]?\d+(?:\.\d+)?(?:e[-+]?\d+)?$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP =
+	/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME_ZONE = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const TIMESTAMP_TOKENS = /YYYY|MM|DD|HH|mm|ss|SSS/g;
+const THOUSANDS = /\B(?=(\d{3})+$)/g;
+const DEFAULT_SYMBOLS: NumberSymbols = { group: ",", decimal: "." };
+
+/** The characters a locale groups thousands and separates decimals with. */
+export interface NumberSymbols {
+	group: string;
+	decimal: string;
+}
+
+// Intl formatters are slow to create, so each distinct one is made only once.
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getNumberFormat(
+	locale: string | undefined,
+	options: Intl.NumberFormatOptions,
+): Intl.NumberFormat {
+	const key = JSON.stringify([locale, options]);
+	let format = numberFormats.get(key);
+	if (!format) {
+		format = new Intl.NumberFormat(locale, options);
+		numberFormats.set(key, format);
+	}
+	return format;
+}
+
+function getDateFormat(
+	locale: string | undefined,
+	options: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+	const key = JSON.stringify([locale, options]);
+	let format = dateFormats.get(key);
+	if (!format) {
+		format = new Intl.DateTimeFormat(locale, options);
+		dateFormats.set(key, format);
+	}
+	return format;
+}
+
+/** The type of a single value; strings holding ISO timestamps are timestamps. */
+function valueType(value: CellTypes): ColumnType {
+	switch (typeof value) {
+		case "number":
+			return "number";
+		case "boolean":
+			return "boolean";
+		case "string":
+			return ISO_TIMESTAMP.test(value) ? "timestamp" : "string";
+		default:
+			return "object";
+	}
+}
+
+/**
+ * Infers a column's type from its values, ignoring nulls. Values of mixed
+ * types make a string column; a column of nothing but nulls has no type.
+ */
+export function inferColumnType(values: CellTypes[]): ColumnType | undefined {
+	let type: ColumnType | undefined;
+	for (const value of values) {
+		if (value === null || value === undefined) continue;
+		const next = valueType(value);
+		if (type !== undefined && next !== type) return "string";
+		type = next;
+	}
+	return type;
+}
+
+/**
+ * Reads a cell as a number. Numeric strings count as numbers, since some
+ * sources (e.g. Arrow 64-bit integers) hand their values over as strings.
+ */
+export function toNumber(value: CellTypes): number | undefined {
+	if (typeof value === "number") {
+		return Number.isNaN(value) ? undefined : value;
+	}
+	if (typeof value === "string" && NUMERIC.test(value)) return Number(value);
+	return undefined;
+}
+
+/** Looks up a locale's number symbols; the runtime's locale by default. */
+export function getNumberSymbols(locale?: string): NumberSymbols {
+	const parts = getNumberFormat(locale, {}).formatToParts(11111.5);
+	return {
+		group: parts.find((part) => part.type === "group")?.value ?? ",",
+		decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+	};
+}
+
+/**
+ * Formats a number, or a numeric string such as an Arrow 64-bit integer,
+ * with an optional fixed number of fraction digits and thousands grouping.
+ * Large integer strings stay exact.
+ */
+export function formatNumber(
+	value: number | string,
+	grouping: boolean,
+	precision?: number,
+	symbols: NumberSymbols = DEFAULT_SYMBOLS,
+): string {
+	let text = String(value);
+	if (precision !== undefined) {
+		// Integer strings may be too large for a number to hold exactly.
+		text = INTEGER.test(text)
+			? text + (precision > 0 ? `.${"0".repeat(precision)}` : "")
+			: Number(value).toFixed(precision);
+	}
+	if (/e/i.test(text)) return text;
+	const [integer, fraction] = text.split(".");
+	return (
+		(grouping ? integer.replace(THOUSANDS, symbols.group) : integer) +
+		(fraction === undefined ? "" : symbols.decimal + fraction)
+	);
+}
+
+/**
+ * Parses an ISO date or timestamp. Timestamps without an offset are taken
+ * as UTC, so they keep the time they show.
+ */
+function parseTimestamp(text: string): Date | undefined {
+	let iso = text;
+	if (ISO_TIMESTAMP.test(text)) {
+		iso = text.replace(" ", "T");
+		if (!TIME_ZONE.test(iso)) iso += "Z";
+	} else if (!ISO_DATE.test(text)) {
+		return undefined;
+	}
+	const date = new Date(iso);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Reads epoch milliseconds, or an ISO date or timestamp, as a date. */
+export function toDate(value: CellTypes): Date | undefined {
+	if (typeof value === "string") return parseTimestamp(value);
+	if (typeof value !== "number") return undefined;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Reformats an ISO timestamp through a pattern of YYYY, MM, DD, HH, mm, ss
+ * and SSS tokens, in UTC. Timestamps without an offset are taken as UTC
+ * already, so they keep the time they show. Returns undefined for text that
+ * isn't a valid timestamp.
+ */
+export function formatTimestamp(
+	text: string,
+	pattern: string,
+): string | undefined {
+	const date = parseTimestamp(text);
+	if (!date) return undefined;
+
+	const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+	const parts: Record<string, string> = {
+		YYYY: pad(date.getUTCFullYear(), 4),
+		MM: pad(date.getUTCMonth() + 1),
+		DD: pad(date.getUTCDate()),
+		HH: pad(date.getUTCHours()),
+		mm: pad(date.getUTCMinutes()),
+		ss: pad(date.getUTCSeconds()),
+		SSS: pad(date.getUTCMilliseconds(), 3),
+	};
+	return pattern.replace(TIMESTAMP_TOKENS, (token) => parts[token]);
+}
+
+/**
+ * Formats a value through a declarative format in the given locale, or the
+ * runtime's. Returns undefined for values the format doesn't apply to, such
+ * as nulls and text that isn't a number or a date.
+ */
+export function formatWithIntl(
+	value: CellTypes,
+	format: CellFormat,
+	locale?: string,
+): string | undefined {
+	if (format.type === "date") {
+		const date = toDate(value);
+		if (!date) return undefined;
+		const { dateStyle, timeStyle, timeZone } = format;
+		return getDateFormat(locale, {
+			// A medium date when neither style is given.
+			dateStyle: dateStyle ?? (timeStyle ? undefined : "medium"),
+			timeStyle,
+			timeZone,
+		}).format(date);
+	}
+
+	// Integer strings may be too large for a number to hold exactly.
+	const number =
+		typeof value === "string" && INTEGER.test(value)
+			? BigInt(value)
+			: toNumber(value);
+	if (number === undefined) return undefined;
+	const digits =
+		format.digits === undefined
+			? {}
+			: {
+					minimumFractionDigits: format.digits,
+					maximumFractionDigits: format.digits,
+				};
+	switch (format.type) {
+		case "number":
+			return getNumberFormat(locale, {
+				useGrouping: format.grouping ?? true,
+				...digits,
+			}).format(number);
+		case "currency":
+			return getNumberFormat(locale, {
+				style: "currency",
+				currency: format.currency,
+				currencyDisplay: format.display,
+				...digits,
+			}).format(number);
+		case "percent":
+			return getNumberFormat(locale, { style: "percent", ...digits }).format(
+				number,
+			);
+		default:
+			throw new Error(
+				`Unknown format type "${(format as { type: string }).type}"`,
+			);
+	}
+}
@@ -0,0 +1,208 @@
+import stringWidth from "string-width";
+import { toDate, toNumber } from "./formatting";
+import type {
+	BytesFormatOptions,
+	CellTypes,
+	DurationFormatOptions,
+	HumanizeOptions,
+	RatioFormatOptions,
+	RelativeTimeFormatOptions,
+	ValueFormatter,
+} from "./types";
+
+const DEFAULT_PRECISION = 1;
+const BINARY_UNITS = ["B", "KiB", "MiB", "GiB", "TiB", "PiB", "EiB"];
+const DECIMAL_UNITS = ["B", "kB", "MB", "GB", "TB", "PB", "EB"];
+const SI_SUFFIXES = ["", "k", "M", "G", "T", "P", "E"];
+// Each unit's name, size in milliseconds and widest amount.
+const DURATION_UNITS: [string, number, number][] = [
+	["d", 86_400_000, 99],
+	["h", 3_600_000, 23],
+	["m", 60_000, 59],
+	["s", 1000, 59],
+	["ms", 1, 999],
+];
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number, number][] = [
+	["year", 365 * 86_400_000, 99],
+	["month", 30 * 86_400_000, 12],
+	["week", 7 * 86_400_000, 4],
+	["day", 86_400_000, 6],
+	["hour", 3_600_000, 23],
+	["minute", 60_000, 59],
+	["second", 1000, 59],
+];
+
+/** Shows a value a formatter doesn't apply to as the table would. */
+function plainText(value: CellTypes): string {
+	if (typeof value === "object" && value !== null) {
+		return JSON.stringify(value);
+	}
+	return String(value ?? "");
+}
+
+/** Pads text to a display width, at the start or at the end. */
+function pad(text: string, width: number, atEnd = false): string {
+	const padding = " ".repeat(Math.max(0, width - stringWidth(text)));
+	return atEnd ? text + padding : padding + text;
+}
+
+/** The widest text of a number below 10^digits, sign and fraction included. */
+function numberWidth(digits: number, precision: number): number {
+	return 1 + digits + (precision > 0 ? precision + 1 : 0);
+}
+
+/**
+ * Divides a number by powers of `base` until it stays below `base` once
+ * rounded, so 999.96 becomes 1.0 of the next unit rather than 1000.0.
+ * Returns the text of the scaled number and the power it was divided by.
+ * Unscaled integers are shown without fraction digits.
+ */
+function scale(
+	value: number,
+	base: number,
+	steps: number,
+	precision: number,
+): [string, number] {
+	let scaled = Math.abs(value);
+	let power = 0;
+	while (power < steps - 1 && Number(scaled.toFixed(precision)) >= base) {
+		scaled /= base;
+		power++;
+	}
+	const text =
+		power === 0 && Number.isInteger(scaled)
+			? String(scaled)
+			: scaled.toFixed(precision);
+	return [(value < 0 ? "-" : "") + text, power];
+}
+
+/**
+ * Creates a formatter for byte sizes, such as `1.4 GiB` or, with decimal
+ * units, `1.5 GB`.
+ */
+export function bytesFormatter(
+	options: BytesFormatOptions = {},
+): ValueFormatter {
+	const { units = "binary", precision = DEFAULT_PRECISION } = options;
+	const base = units === "binary" ? 1024 : 1000;
+	const names = units === "binary" ? BINARY_UNITS : DECIMAL_UNITS;
+	const unitWidth = Math.max(...names.map((name) => name.length));
+	const width = numberWidth(String(base - 1).length, precision) + 1 + unitWidth;
+	return (value) => {
+		const number = toNumber(value);
+		if (number === undefined) return plainText(value);
+		const [text, power] = scale(number, base, names.length, precision);
+		if (!options.fixedWidth) return `${text} ${names[power]}`;
+		return pad(`${text} ${pad(names[power], unitWidth, true)}`, width);
+	};
+}
+
+/** Creates a formatter for counts with SI suffixes, such as `12.3k` or `4.0M`. */
+export function countFormatter(options: HumanizeOptions = {}): ValueFormatter {
+	const { precision = DEFAULT_PRECISION } = options;
+	const width = numberWidth(3, precision) + 1;
+	return (value) => {
+		const number = toNumber(value);
+		if (number === undefined) return plainText(value);
+		const [text, power] = scale(number, 1000, SI_SUFFIXES.length, precision);
+		const count = text + SI_SUFFIXES[power];
+		return options.fixedWidth ? pad(count, width) : count;
+	};
+}
+
+/**
+ * Creates a formatter for ratios, as percentages such as `25.0%` or as
+ * multipliers such as `1.5×`. Fixed widths fit ratios up to 999% or 999×.
+ */
+export function ratioFormatter(
+	options: RatioFormatOptions = {},
+): ValueFormatter {
+	const { precision = DEFAULT_PRECISION, style = "percent" } = options;
+	const width = numberWidth(3, precision) + 1;
+	return (value) => {
+		const number = toNumber(value);
+		if (number === undefined) return plainText(value);
+		const ratio =
+			style === "percent"
+				? `${(number * 100).toFixed(precision)}%`
+				: `${number.toFixed(precision)}×`;
+		return options.fixedWidth ? pad(ratio, width) : ratio;
+	};
+}
+
+/**
+ * Creates a formatter for durations, such as `3m 12s` or `2d 4h`. It shows
+ * the largest units, and drops what is left below the last one shown.
+ */
+export function durationFormatter(
+	options: DurationFormatOptions = {},
+): ValueFormatter {
+	const { unit = "ms", parts = 2 } = options;
+	if (!Number.isInteger(parts) || parts < 1) {
+		throw new Error(`Duration parts must be a positive integer, got ${parts}`);
+	}
+	const width = Math.max(
+		...DURATION_UNITS.map((_, i) => {
+			const shown = DURATION_UNITS.slice(i, i + parts);
+			// One more character per part makes room for the spaces and a sign.
+			return shown.reduce(
+				(sum, [name, , max]) => sum + String(max).length + name.length + 1,
+				0,
+			);
+		}),
+	);
+	return (value) => {
+		const number = toNumber(value);
+		if (number === undefined) return plainText(value);
+		let rest = Math.round(Math.abs(number) * (unit === "s" ? 1000 : 1));
+		const shown: [number, string][] = [];
+		for (const [name, size] of DURATION_UNITS) {
+			const amount = Math.floor(rest / size);
+			rest -= amount * size;
+			// Once the largest unit is shown, smaller ones follow even if zero.
+			if (amount > 0 || shown.length > 0) shown.push([amount, name]);
+			if (shown.length === parts) break;
+		}
+		// Zeros at the end add nothing: "1h", not "1h 0m".
+		while (shown.length > 1 && shown[shown.length - 1][0] === 0) {
+			shown.pop();
+		}
+		const duration =
+			shown.length === 0
+				? "0s"
+				: (number < 0 ? "-" : "") +
+					shown.map(([amount, name]) => amount + name).join(" ");
+		return options.fixedWidth ? pad(duration, width) : duration;
+	};
+}
+
+/**
+ * Creates a formatter for epoch milliseconds or ISO timestamps relative to
+ * now, such as `5 minutes ago` or `in 2 days`. Each time is shown in the
+ * largest unit it spans at least once of, rounded toward now.
+ */
+export function relativeTimeFormatter(
+	options: RelativeTimeFormatOptions = {},
+): ValueFormatter {
+	const { now = Date.now, locale, numeric = "always" } = options;
+	const format = new Intl.RelativeTimeFormat(locale, { numeric });
+	const width = options.fixedWidth
+		? Math.max(
+				...RELATIVE_UNITS.flatMap(([name, , max]) => [
+					stringWidth(format.format(-max, name)),
+					stringWidth(format.format(max, name)),
+				]),
+			)
+		: 0;
+	return (value) => {
+		const date = toDate(value);
+		if (!date) return plainText(value);
+		const difference = date.getTime() - new Date(now()).getTime();
+		const [name, size] =
+			RELATIVE_UNITS.find(([, size]) => Math.abs(difference) >= size) ??
+			RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+		// Adding 0 turns -0 into 0, which Intl would show as "0 seconds ago".
+		const time = format.format(Math.trunc(difference / size) + 0, name);
+		return options.fixedWidth ? pad(time, width, true) : time;
+	};
+}
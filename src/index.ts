@@ -1,15 +1,79 @@
-export { TableFormatter } from "./TableFormatter";
+export {
+	TableFormatter,
+	BORDER_PRESETS,
+	SINGLE_LINE_BORDER,
+	DOUBLE_LINE_BORDER,
+	ROUNDED_BORDER,
+	HEAVY_BORDER,
+	ASCII_BORDER,
+	DASHED_BORDER,
+	COMPACT_BORDER,
+	BORDERLESS_BORDER,
+	MARKDOWN_BORDER,
+	HEAVY_HEADER_BORDER,
+	DOUBLE_HEADER_BORDER,
+	HEAVY_FRAME_BORDER,
+} from "./TableFormatter";
+
+export {
+	bytesFormatter,
+	countFormatter,
+	durationFormatter,
+	ratioFormatter,
+	relativeTimeFormatter,
+} from "./humanize";
 
 export { ArrowDataSource } from "./ArrowDataSource";
 export { JSONDataSource, type JSONObject } from "./JSONDataSource";
+export { FilteredDataSource } from "./FilteredDataSource";
+export { ComputedDataSource } from "./ComputedDataSource";
+export { FlattenedDataSource } from "./FlattenedDataSource";
+export { TreeDataSource } from "./TreeDataSource";
 
 export type { ITableDataSource } from "./ITableDataSource";
 
 export type {
 	TableConfig,
+	Aggregate,
+	AutoFormatConfig,
+	AggregateName,
+	ArrayStrategy,
+	CellFormat,
 	CellTypes,
 	Style,
 	BorderChars,
+	BorderStyle,
+	BytesFormatOptions,
+	RuleChars,
 	ColumnConfig,
+	ColumnPagingConfig,
+	ColumnSchema,
+	ColumnType,
+	ComputedColumn,
+	DateStyle,
+	DurationFormatOptions,
+	FilterCondition,
+	FilterOperator,
+	FlattenConfig,
 	FooterInfo,
+	GroupInfo,
+	HeaderGroup,
+	HumanizeOptions,
+	Layout,
+	Overflow,
+	RatioFormatOptions,
+	RelativeTimeFormatOptions,
+	RowFilter,
+	RowNumberConfig,
+	RowSeparator,
+	RowSeparatorConfig,
+	SortIndicators,
+	SortKey,
+	SubtotalConfig,
+	SummaryConfig,
+	TitleConfig,
+	TreeConfig,
+	TreeNodeInfo,
+	TreeSource,
+	ValueFormatter,
 } from "./types";
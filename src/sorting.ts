@@ -0,0 +1,117 @@
+import { INTEGER, toDate, toNumber } from "./formatting";
+import type { ITableDataSource } from "./ITableDataSource";
+import type { CellTypes, SortKey } from "./types";
+
+// A shared collator; creating one per comparison is slow.
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+/** Orders values of different types: booleans, then numbers, strings and objects. */
+function typeRank(value: CellTypes): number {
+	switch (typeof value) {
+		case "boolean":
+			return 0;
+		case "number":
+			return 1;
+		case "string":
+			return 2;
+		default:
+			return 3;
+	}
+}
+
+/** Compares two strings as integers, numbers, ISO dates or text, in that order. */
+function compareStrings(a: string, b: string): number {
+	// Arrow hands 64-bit integers over as strings; BigInt keeps them exact.
+	if (INTEGER.test(a) && INTEGER.test(b)) {
+		const difference = BigInt(a) - BigInt(b);
+		return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+	}
+	// The same parsing as formatting, so a column sorts the way it displays.
+	const numberA = toNumber(a);
+	const numberB = toNumber(b);
+	if (numberA !== undefined && numberB !== undefined) {
+		return numberA - numberB;
+	}
+	const dateA = toDate(a);
+	const dateB = toDate(b);
+	if (dateA && dateB) return dateA.getTime() - dateB.getTime();
+	return collator.compare(a, b);
+}
+
+/**
+ * The default, type-aware comparator: numbers and numeric strings compare
+ * numerically, ISO date strings chronologically, other strings with locale
+ * collation, and booleans as false before true. Nulls are left to the
+ * caller.
+ */
+export function compareValues(a: CellTypes, b: CellTypes): number {
+	const rankDifference = typeRank(a) - typeRank(b);
+	if (rankDifference !== 0) {
+		// Numeric strings still sort alongside numbers.
+		if (typeof a !== "object" && typeof b !== "object") {
+			return compareStrings(String(a), String(b));
+		}
+		return rankDifference;
+	}
+	if (typeof a === "number" && typeof b === "number") {
+		return a - b;
+	}
+	if (typeof a === "boolean" && typeof b === "boolean") {
+		return Number(a) - Number(b);
+	}
+	if (typeof a === "string" && typeof b === "string") {
+		return compareStrings(a, b);
+	}
+	return collator.compare(JSON.stringify(a), JSON.stringify(b));
+}
+
+/**
+ * Sorts the rows of a data source by the given keys, without touching the
+ * source. Returns the source row indices in sorted order; rows that compare
+ * equal keep their original order.
+ */
+export function sortRowIndices(
+	source: ITableDataSource,
+	rowIndices: number[],
+	keys: SortKey[],
+): number[] {
+	const columnNames = source.getColumnNames();
+	const keyIndices = keys.map((key) => {
+		const index = columnNames.indexOf(key.column);
+		if (index < 0) {
+			throw new Error(`Unknown sort column "${key.column}"`);
+		}
+		return index;
+	});
+
+	// Read each row's key values once, up front.
+	const keyValues = new Map<number, CellTypes[]>();
+	for (const rowIndex of rowIndices) {
+		const row = source.getArrayRow(rowIndex);
+		keyValues.set(
+			rowIndex,
+			keyIndices.map((i) => row[i] ?? null),
+		);
+	}
+
+	return [...rowIndices].sort((rowA, rowB) => {
+		const valuesA = keyValues.get(rowA) ?? [];
+		const valuesB = keyValues.get(rowB) ?? [];
+		for (let k = 0; k < keys.length; k++) {
+			const { direction = "asc", nulls = "last", compare } = keys[k];
+			const a = valuesA[k];
+			const b = valuesB[k];
+
+			// Nulls go first or last regardless of the sort direction.
+			if (a === null || b === null) {
+				if (a === b) continue;
+				return (a === null) === (nulls === "first") ? -1 : 1;
+			}
+			const result = (compare ?? compareValues)(a, b);
+			if (result !== 0) {
+				return direction === "desc" ? -result : result;
+			}
+		}
+		return rowA - rowB;
+	});
+}
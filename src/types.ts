@@ -18,6 +18,7 @@ export interface Style {
 	bold?: boolean;
 	italic?: boolean;
 	underline?: boolean;
+	dim?: boolean;
 }
 
 /** A theme defines the default styles for all parts of the table. */
@@ -26,9 +27,35 @@ export interface TableTheme {
 	cell: Style;
 	alternatingCell: Style; // Style for every other data row
 	footer: Style;
+	headerGroup?: Style; // Style for the spanning labels above the header
+	summary?: Style; // Style for the summary row below the data
+	group?: Style; // Style for group header rows
+	subtotal?: Style; // Style for per-group subtotal rows
+	title?: Style; // Style for the title above the table
+	caption?: Style; // Style for the caption below the table
+	placeholder?: Style; // Style for the placeholder of null values, with `autoFormat`
 }
 
-/** Defines the characters used to draw the table borders. */
+/** Characters of one horizontal rule. */
+export interface RuleChars {
+	horizontal: string;
+	left: string;
+	right: string;
+	cross: string; // Where a column wall continues through the rule, e.g. ┼
+	down: string; // Where a column wall starts below the rule, e.g. ┬
+	up: string; // Where a column wall ends above the rule, e.g. ┴
+}
+
+/**
+ * Defines the characters used to draw the table borders. An empty `vertical`
+ * removes the outer walls, an empty `cellSeparator` the walls between
+ * columns, and an empty `horizontal` every rule. The top and bottom borders
+ * are only drawn when they have a corner character.
+ *
+ * The rule overrides give each section its own characters, e.g. a heavy rule
+ * below the header; what they leave out comes from the shared keys.
+ * Box-drawing characters must connect to the lines they meet.
+ */
 export interface BorderChars {
 	horizontal: string;
 	vertical: string;
@@ -42,44 +69,369 @@ export interface BorderChars {
 	middleSeparator: string;
 	bottomSeparator: string;
 	cellSeparator: string;
+	scrollLeft?: string; // Wall drawn where columns are scrolled out to the left (default: ◀)
+	scrollRight?: string; // Wall drawn where columns are scrolled out to the right (default: ▶)
+	headerCellSeparator?: string; // Wall between header columns (default: vertical)
+	top?: Partial<RuleChars>; // Top border
+	headerRule?: Partial<RuleChars>; // Rules between and below the header rows
+	rowRule?: Partial<RuleChars>; // Rules between body rows, groups and the summary
+	footerRule?: Partial<RuleChars>; // Rule above the footer and caption
+	bottom?: Partial<RuleChars>; // Bottom border
 }
 
+/** Names of the built-in border presets. */
+export type BorderStyle =
+	| "single"
+	| "double"
+	| "rounded"
+	| "heavy"
+	| "ascii"
+	| "dashed"
+	| "compact" // Column walls and rules, but no outer frame
+	| "borderless" // Columns separated by whitespace only
+	| "markdown" // Pipe-table syntax
+	| "heavy-header" // Light lines with a heavy rule below the header
+	| "double-header" // Light lines with a double rule below the header
+	| "heavy-frame"; // A heavy outer frame around light inner lines
+
+/**
+ * How cell content wider than its column is handled.
+ * - `truncate`: cut the text to one line and append the truncation character.
+ * - `wrap`: break the text across several lines at word boundaries.
+ * - `char-wrap`: break the text across several lines at any character.
+ */
+export type Overflow = "truncate" | "wrap" | "char-wrap";
+
 /** Defines configuration overrides for a specific column. */
 export interface ColumnConfig {
 	header?: string;
-	alignment?: "left" | "right" | "center";
+	alignment?: "left" | "right" | "center" | "decimal"; // "decimal" lines values up on their decimal separator
+	verticalAlignment?: "top" | "middle" | "bottom"; // Placement within a multi-line row
 	style?: Style;
 	headerStyle?: Style;
-	formatter?: (value: CellTypes, rowIndex: number) => string;
-	cellStyle?: (value: CellTypes) => Style | undefined;
+	format?: CellFormat; // Declarative alternative to `formatter`
+	// `row` is the whole source row, hidden columns included (empty for summary rows)
+	formatter?: (value: CellTypes, rowIndex: number, row: JSONObject) => string;
+	cellStyle?: (value: CellTypes, row: JSONObject) => Style | undefined;
 	padding?: { left: number; right: number };
+	overflow?: Overflow; // Overrides the table-wide overflow mode
+	type?: ColumnType; // For `autoFormat`, instead of inferring it from the displayed rows
 
 	// --- RESPONSIVE PROPERTIES ---
 	minWidth?: number; // Minimum content width
 	maxWidth?: number; // Maximum content width
 	flexGrow?: number; // Ratio to grow relative to other flex columns
+	priority?: number; // When space runs out, lower priorities are hidden first
+	pinned?: "left" | "right"; // Always shown, outside the scrolling column window
+}
+
+/** A column's logical type, which picks its `autoFormat` formatting and alignment. */
+export type ColumnType =
+	| "number"
+	| "boolean"
+	| "timestamp"
+	| "string"
+	| "object";
+
+/** The predefined lengths of `Intl` date and time styles. */
+export type DateStyle = "full" | "long" | "medium" | "short";
+
+/**
+ * A declarative cell format, backed by `Intl` in the table's `locale`.
+ * Unlike a `formatter` function, it can be serialized. Without `digits`,
+ * `Intl` picks the number of fraction digits.
+ */
+export type CellFormat =
+	| { type: "number"; digits?: number; grouping?: boolean }
+	| {
+			type: "currency";
+			currency: string; // ISO 4217 code, e.g. "EUR"
+			digits?: number;
+			display?: "symbol" | "narrowSymbol" | "code" | "name";
+	  }
+	| { type: "percent"; digits?: number } // 0.25 is shown as 25%
+	| {
+			type: "date"; // Epoch milliseconds, or ISO dates and timestamps
+			dateStyle?: DateStyle;
+			timeStyle?: DateStyle;
+			timeZone?: string; // IANA name, e.g. "UTC" (default: the runtime's)
+	  };
+
+/** Formats a cell's value; any `ColumnConfig.formatter` slot accepts one. */
+export type ValueFormatter = (value: CellTypes) => string;
+
+/** Options shared by the humanized formatters. */
+export interface HumanizeOptions {
+	precision?: number; // Fraction digits of scaled values (default 1)
+	fixedWidth?: boolean; // Pad every value to the same width, so columns don't jitter
+}
+
+export interface BytesFormatOptions extends HumanizeOptions {
+	units?: "binary" | "decimal"; // KiB, MiB, ... (default) or kB, MB, ...
+}
+
+export interface DurationFormatOptions {
+	unit?: "ms" | "s"; // Unit of the values (default "ms")
+	parts?: number; // How many units to show, largest first (default 2)
+	fixedWidth?: boolean; // Pad to the same width, for durations under 100 days
+}
+
+export interface RelativeTimeFormatOptions {
+	now?: () => Date | number; // The clock, injectable for deterministic output (default Date.now)
+	locale?: string; // BCP 47 tag (default: the runtime's)
+	numeric?: "always" | "auto"; // "auto" allows "yesterday" for "1 day ago" (default "always")
+	fixedWidth?: boolean; // Pad to the same width, for times under 100 years away
+}
+
+export interface RatioFormatOptions extends HumanizeOptions {
+	style?: "percent" | "times"; // 0.25 as 25.0% (default), or 1.5 as 1.5×
+}
+
+/** Describes a column of a data source. */
+export interface ColumnSchema {
+	name: string;
+	type: ColumnType;
+	nullable: boolean; // Whether the column may hold nulls
+	nativeType?: string; // The source's own name for the type, e.g. Arrow's "Int64"
+	metadata?: Record<string, string>; // Extra details from the source, such as Arrow field metadata
+}
+
+/**
+ * Type-aware defaults for columns without a `formatter`. Number columns are
+ * also right-aligned unless they set an `alignment`.
+ */
+export interface AutoFormatConfig {
+	grouping?: boolean; // Group thousands in numbers (default true)
+	precision?: number; // Fixed number of fraction digits for numbers
+	booleans?: { true: string; false: string }; // Default ✓ and ✗
+	nullText?: string; // Placeholder for null values (default —)
+	timestampFormat?: string; // Pattern for ISO timestamps (default "YYYY-MM-DD HH:mm:ss")
+}
+
+/**
+ * How an array value is shown in a single cell.
+ * - `join`: all items, joined with the separator.
+ * - `count`: the number of items.
+ * - `{ first: n }`: the first n items, then how many more there are.
+ */
+export type ArrayStrategy = "join" | "count" | { first: number };
+
+/** Options for expanding nested objects into dotted columns. */
+export interface FlattenConfig {
+	depth?: number; // Levels of nesting to expand (default 1); ignored when `paths` is set
+	paths?: string[]; // Only expand the objects at these paths, e.g. "address.geo"
+	arrays?: ArrayStrategy; // Default "join"
+	separator?: string; // Between array items (default ", ")
+	headerGroups?: boolean; // Label expanded columns by their parent key in a header group row
+}
+
+/**
+ * Where the hierarchy of a tree comes from: a column holding each row's
+ * nested child rows (default "children"), or id and parent id columns.
+ */
+export interface TreeSource {
+	childrenKey?: string;
+	idKey?: string; // Default "id" when parentKey is set
+	parentKey?: string; // Default "parentId" when idKey is set
+}
+
+/** Options for rendering hierarchical rows as a tree. */
+export interface TreeConfig extends TreeSource {
+	column: string; // The column indented with tree guides
+}
+
+/** Where a row sits in a tree. */
+export interface TreeNodeInfo {
+	depth: number; // 0 for root rows
+	isLast: boolean; // Whether it is the last of its siblings
+	ancestorsLast: boolean[]; // isLast of each ancestor, from the root down
+	hasChildren: boolean;
+}
+
+/** A column that isn't in the data source, computed from each row instead. */
+export interface ComputedColumn {
+	// `row` has the source's values, plus computed columns declared earlier
+	value: (row: JSONObject, rowIndex: number) => CellTypes;
+	after?: string; // Insert after this column (default: after the last column)
+}
+
+/** A header label spanning several adjacent columns. */
+export interface HeaderGroup {
+	label: string;
+	columns: string[]; // Keys of the spanned columns, which must be adjacent
+	style?: Style;
 }
 
 /** Information passed to the footer rendering function. */
 export interface FooterInfo {
-	totalRows: number;
+	totalRows: number; // Rows in the data source, before filtering
+	matchedRows: number; // Rows that pass the filter; equals totalRows without one
 	displayedRows: number;
 	isTruncated: boolean;
 	startRow: number;
 	endRow: number;
+	hiddenColumns: string[]; // Keys of columns hidden for lack of space
+	columnStart: number; // Index of the first column shown, among the displayed columns
+	columnEnd: number; // Index after the last column shown
+	totalColumns: number;
+	columnsBefore: number; // Columns scrolled out of view to the left
+	columnsAfter: number; // Columns scrolled out of view to the right
+}
+
+/** Options for the built-in row number column. */
+export interface RowNumberConfig {
+	base?: 0 | 1; // Number shown for the first source row (default 1)
+	header?: string;
+	alignment?: "left" | "right" | "center";
+	style?: Style;
+	headerStyle?: Style;
+}
+
+/** Options for the title above a table, or the caption below it. */
+export interface TitleConfig {
+	text: string;
+	alignment?: "left" | "right" | "center"; // Default: center for titles, left for captions
+	placement?: "row" | "border"; // A boxed row of its own (default), or inside the outer border
+	style?: Style; // Merged over the theme's title or caption style
+}
+
+/** Options for the rules drawn between data rows. */
+export interface RowSeparatorConfig {
+	every?: number; // Draw a rule after every this many rows (default 1)
+	when?: (prev: JSONObject, next: JSONObject) => boolean; // Draw a rule where this holds instead
+	dotted?: boolean; // Draw a lighter, dotted rule
 }
 
+/** When to draw a rule between two data rows. */
+export type RowSeparator =
+	| "none"
+	| "all"
+	| RowSeparatorConfig
+	| ((prev: JSONObject, next: JSONObject) => boolean);
+
+/** Options for splitting a wide table into stacked sections of columns. */
+export interface ColumnPagingConfig {
+	keyColumns?: string[]; // Columns repeated at the left of every section
+}
+
+/** Built-in aggregates for the summary row. */
+export type AggregateName =
+	| "sum"
+	| "avg"
+	| "min"
+	| "max"
+	| "count"
+	| "countDistinct";
+
+/**
+ * How a column is summarized: a built-in aggregate, or a function that
+ * reduces the column's raw values to a single cell value.
+ */
+export type Aggregate = AggregateName | ((values: CellTypes[]) => CellTypes);
+
+/** Options for the subtotal row rendered at the end of each group. */
+export interface SubtotalConfig {
+	columns: Record<string, Aggregate>; // Aggregate per column key
+	label?: string; // Shown in the first column without an aggregate
+}
+
+/** Options for the summary row rendered below the data rows. */
+export interface SummaryConfig extends SubtotalConfig {
+	scope?: "all" | "page"; // Aggregate every row (default) or only displayed rows
+}
+
+/** Comparisons available to declarative filters. */
+export type FilterOperator =
+	| "eq"
+	| "ne"
+	| "contains"
+	| "gt"
+	| "gte"
+	| "lt"
+	| "lte"
+	| "regex";
+
+/** A declarative filter that tests one column's value. */
+export interface FilterCondition {
+	column: string;
+	op: FilterOperator;
+	value: CellTypes | RegExp; // A RegExp or pattern string for "regex"
+}
+
+/**
+ * Selects the rows to show: a predicate called with each row and its index
+ * in the data source, or a declarative condition.
+ */
+export type RowFilter =
+	| ((row: JSONObject, index: number) => boolean)
+	| FilterCondition;
+
+/** One key of a multi-key sort. */
+export interface SortKey {
+	column: string;
+	direction?: "asc" | "desc"; // Default "asc"
+	nulls?: "first" | "last"; // Where nulls go, whatever the direction (default "last")
+	compare?: (a: CellTypes, b: CellTypes) => number; // Replaces the type-aware default
+}
+
+/** Markers appended to the headers of sorted columns. */
+export interface SortIndicators {
+	asc: string;
+	desc: string;
+}
+
+/** Information passed to the group label function. */
+export interface GroupInfo {
+	column: string; // The groupBy column this group belongs to
+	value: CellTypes; // The value shared by the group's rows
+	depth: number; // 0 for the first groupBy column, 1 for the next, ...
+	rowCount: number; // Rows in the whole group, not just the displayed page
+}
+
+/**
+ * How rows are laid out.
+ * - `horizontal`: one line (or more, when wrapping) per row under a shared header.
+ * - `vertical`: one key/value block per row, with header labels on the left.
+ * - `auto`: horizontal, unless that would squeeze a column below `minReadableWidth`.
+ */
+export type Layout = "horizontal" | "vertical" | "auto";
+
 /** The main configuration object for the TableFormatter. */
 export interface TableConfig {
 	maxWidth?: number;
+	locale?: string; // BCP 47 tag for numbers, dates and decimal alignment (default: the runtime's)
+	layout?: Layout;
+	minReadableWidth?: number; // Narrowest width "auto" layout accepts for a column
 	padding?: { left: number; right: number };
 	truncationChar?: string;
+	overflow?: Overflow;
 	rowLimit?: number;
 	rowOffset?: number;
-	border?: Partial<BorderChars>;
+	columnLimit?: number; // Number of unpinned columns to show
+	columnOffset?: number; // Number of unpinned columns scrolled out to the left
+	rowNumbers?: boolean | RowNumberConfig; // Prepend a column with each row's source index
+	border?: BorderStyle | Partial<BorderChars>; // A preset name, or characters merged over the single-line border
 	columns?: Record<string, ColumnConfig>;
+	computed?: Record<string, ComputedColumn>; // Extra columns, configured via `columns` like real ones
+	flatten?: number | string[] | FlattenConfig; // A depth, paths to expand, or full options
+	tree?: TreeConfig; // Show hierarchical rows depth first, with guides in one column
+	columnOrder?: string[]; // Only show these columns, in this order
+	hiddenColumns?: string[]; // Never shown, but still readable by styles and formatters
 	footer?: (info: FooterInfo) => string;
+	title?: string | TitleConfig; // Full-width bar above the header
+	caption?: string | TitleConfig; // Full-width bar below the footer
+	headerGroups?: HeaderGroup[][]; // Extra header rows, listed top to bottom
+	columnPaging?: ColumnPagingConfig; // Print columns that don't fit as further sections
+	summary?: SummaryConfig; // Aggregate row below the data (horizontal layout only)
+	filter?: RowFilter; // Only show rows that match
+	sort?: SortKey[]; // Sort rows by these keys, most significant first
+	sortIndicators?: SortIndicators | false; // Header markers (default ▲ and ▼)
+	groupBy?: string | string[]; // Group rows by these columns, outermost first
+	groupLabel?: (group: GroupInfo) => string; // Text of each group header row
+	subtotals?: SubtotalConfig; // Aggregate row at the end of each group
 	theme?: Partial<TableTheme>;
 	alternatingRows?: boolean;
+	rowSeparator?: RowSeparator; // Rules between data rows (default "none")
 	rowStyle?: (row: JSONObject) => Style | undefined;
+	autoFormat?: boolean | AutoFormatConfig; // Format values by type where there is no formatter
 }